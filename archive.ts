@@ -0,0 +1,407 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { getOutputExtension, ITask, ITaskOutput, readOutput } from "./source";
+import { TaskType } from "./types";
+
+// --- Constants ---
+const INDEX_KEY = "index.jsonl";
+const SIDECAR_NAME = "task.json";
+const S3_SERVICE = "s3";
+const DEFAULT_S3_REGION = "us-east-1";
+
+// --- Interfaces ---
+/** Where archived files are kept: a local folder or an S3 bucket. */
+export interface IArchiveBackend {
+  put(key: string, data: Buffer | string): Promise<void>;
+  /** @returns undefined when there is no such file. */
+  get(key: string): Promise<Buffer | undefined>;
+  describe(): string;
+}
+
+export interface IS3Config {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO URL
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+/** What was made of one output, handed over after delivery. */
+export interface IArchiveSheet {
+  output: ITaskOutput;
+  original?: Buffer; // Downloaded again when missing
+  layout?: string; // e.g. `3x3`, for image sheets
+  stickers: Buffer[];
+  stickerExtension?: string; // `.webp` unless given
+}
+
+/** One line of the index, enough to find a task without opening its folder. */
+export interface IArchiveEntry {
+  taskId: string;
+  source: string;
+  type: TaskType;
+  title?: string;
+  prompt?: string;
+  createdAt?: number; // ms timestamp at the source
+  archivedAt: number;
+  prefix: string; // Folder of the task inside the archive, ends with `/`
+  originals: string[]; // Keys relative to the prefix
+  stickers: number;
+}
+
+export interface IArchiveQuery {
+  text?: string; // Matched against prompt and title, case-insensitive
+  since?: number; // ms timestamps, compared with the creation date
+  until?: number;
+}
+
+// --- Backends ---
+
+export class LocalArchiveBackend implements IArchiveBackend {
+  constructor(private readonly dir: string) {}
+
+  async put(key: string, data: Buffer | string): Promise<void> {
+    const file = path.join(this.dir, key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Written aside and renamed, so a crash never leaves half a file
+    const tempFile = `${file}.tmp`;
+    await fs.writeFile(tempFile, data);
+    await fs.rename(tempFile, file);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(path.join(this.dir, key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  describe(): string {
+    return this.dir;
+  }
+}
+
+/**
+ * Any S3-compatible bucket (AWS, MinIO, R2...), addressed path-style. Requests
+ * are signed with AWS Signature Version 4.
+ */
+export class S3ArchiveBackend implements IArchiveBackend {
+  constructor(private readonly config: IS3Config) {}
+
+  async put(key: string, data: Buffer | string): Promise<void> {
+    const res = await this.request("PUT", key, Buffer.from(data));
+    if (!res.ok) {
+      throw new Error(`S3 upload of ${key} failed: ${res.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    const res = await this.request("GET", key);
+    if (res.status === 404) return undefined;
+    if (!res.ok) throw new Error(`S3 download of ${key} failed: ${res.status}`);
+    return Buffer.from(await res.arrayBuffer());
+  }
+
+  describe(): string {
+    return `${this.config.endpoint}/${this.config.bucket}`;
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer
+  ): Promise<Response> {
+    const endpoint = new URL(this.config.endpoint);
+    const pathname = [this.config.bucket, ...key.split("/")]
+      .map(encodeS3PathSegment)
+      .join("/");
+    const uri = `${endpoint.pathname.replace(/\/$/, "")}/${pathname}`;
+    const headers = signS3Request({
+      method,
+      host: endpoint.host,
+      uri,
+      headers: {},
+      body: body ?? Buffer.alloc(0),
+      config: this.config,
+      date: new Date(),
+    });
+    delete headers.host; // Set by fetch itself
+    return fetch(`${endpoint.origin}${uri}`, {
+      method,
+      headers,
+      body: body && new Uint8Array(body),
+    });
+  }
+}
+
+function encodeS3PathSegment(segment: string): string {
+  return encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+/**
+ * Signs a request without a query string with AWS Signature Version 4.
+ * Every header passed in is signed.
+ * @returns The headers to send, including `Authorization`.
+ */
+export function signS3Request(request: {
+  method: string;
+  host: string;
+  uri: string; // Already URI-encoded
+  headers: Record<string, string>;
+  body: Buffer | string;
+  config: Pick<IS3Config, "region" | "accessKeyId" | "secretAccessKey">;
+  date: Date;
+}): Record<string, string> {
+  const { config } = request;
+  const amzDate = request.date.toISOString().replace(/[-:]|\.\d{3}/g, "");
+  const day = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...request.headers,
+    host: request.host,
+    "x-amz-content-sha256": sha256Hex(request.body),
+    "x-amz-date": amzDate,
+  };
+  const names = Object.keys(headers)
+    .map((name) => name.toLowerCase())
+    .sort();
+  const lowerCased = Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const signedHeaders = names.join(";");
+  const canonicalRequest = [
+    request.method,
+    request.uri,
+    "", // Query string
+    ...names.map((name) => `${name}:${lowerCased[name].trim()}`),
+    "",
+    signedHeaders,
+    headers["x-amz-content-sha256"],
+  ].join("\n");
+  const scope = `${day}/${config.region}/${S3_SERVICE}/aws4_request`;
+  const stringToSign = [
+    "AWS4-HMAC-SHA256",
+    amzDate,
+    scope,
+    sha256Hex(canonicalRequest),
+  ].join("\n");
+  const signingKey = hmac(
+    hmac(
+      hmac(hmac(`AWS4${config.secretAccessKey}`, day), config.region),
+      S3_SERVICE
+    ),
+    "aws4_request"
+  );
+  const signature = hmac(signingKey, stringToSign).toString("hex");
+  return {
+    ...headers,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+// --- Archive ---
+
+/** Usable as a file name on every platform and in S3 keys. */
+function toKeySegment(text: string): string {
+  return text.replace(/[^\w.-]+/g, "_");
+}
+
+export function matchesQuery(
+  entry: IArchiveEntry,
+  query: IArchiveQuery
+): boolean {
+  const date = entry.createdAt ?? entry.archivedAt;
+  if (query.since !== undefined && date < query.since) return false;
+  if (query.until !== undefined && date > query.until) return false;
+  if (!query.text) return true;
+  const text = query.text.toLowerCase();
+  return [entry.prompt, entry.title, entry.taskId].some((field) =>
+    field?.toLowerCase().includes(text)
+  );
+}
+
+/**
+ * Keeps the original sheets and videos of delivered tasks with their stickers
+ * and a `task.json` sidecar, so packs can be rebuilt after the source URLs
+ * expired. Each task gets a folder `YYYY-MM-DD/<task id>/`; `index.jsonl` at
+ * the root lists them all for searching.
+ */
+export class TaskArchive {
+  private entries = new Map<string, IArchiveEntry>();
+  // Until the index was read, writing it would drop every earlier entry
+  private loaded = false;
+
+  constructor(readonly backend: IArchiveBackend) {}
+
+  async load(): Promise<void> {
+    this.entries.clear();
+    this.loaded = false;
+    const index = await this.backend.get(INDEX_KEY);
+    for (const line of index?.toString("utf8").split("\n") ?? []) {
+      if (!line.trim()) continue;
+      try {
+        const entry: IArchiveEntry = JSON.parse(line);
+        this.entries.set(entry.taskId, entry);
+      } catch {
+        console.warn(`Skipping unreadable line in the archive index.`);
+      }
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * Stores a delivered task. Archiving it again replaces the earlier copy.
+   * An index that could not be read at startup is read again first.
+   * @throws When the index or an original can't be read, or a write fails.
+   */
+  async add(task: ITask, sheets: IArchiveSheet[]): Promise<IArchiveEntry> {
+    if (!this.loaded) await this.load();
+    const archivedAt = Date.now();
+    const day = new Date(task.createdAt ?? archivedAt)
+      .toISOString()
+      .slice(0, 10);
+    const prefix = `${day}/${toKeySegment(task.id)}/`;
+
+    const outputs = [];
+    let stickerCount = 0;
+    for (const [idx, sheet] of sheets.entries()) {
+      const { output } = sheet;
+      const original = sheet.original ?? (await readOutput(output.url));
+      const originalKey = `original-${idx + 1}${getOutputExtension(
+        output.url,
+        task.type
+      )}`;
+      await this.backend.put(prefix + originalKey, original);
+
+      const stickerKeys: string[] = [];
+      for (const [stickerIdx, sticker] of sheet.stickers.entries()) {
+        const key = `stickers/${idx + 1}-${stickerIdx + 1}${
+          sheet.stickerExtension ?? ".webp"
+        }`;
+        await this.backend.put(prefix + key, sticker);
+        stickerKeys.push(key);
+      }
+      stickerCount += stickerKeys.length;
+      outputs.push({
+        id: output.id,
+        original: originalKey,
+        url: output.url,
+        seed: output.seed,
+        width: output.width,
+        height: output.height,
+        bytes: original.length,
+        durationSecs: output.durationSecs,
+        layout: sheet.layout,
+        stickers: stickerKeys,
+      });
+    }
+
+    const sidecar = {
+      id: task.id,
+      source: task.source,
+      type: task.type,
+      title: task.title,
+      prompt: task.prompt,
+      model: task.model,
+      presetId: task.presetId,
+      link: task.link,
+      createdAt: task.createdAt && new Date(task.createdAt).toISOString(),
+      archivedAt: new Date(archivedAt).toISOString(),
+      outputs,
+    };
+    await this.backend.put(
+      prefix + SIDECAR_NAME,
+      JSON.stringify(sidecar, null, 2)
+    );
+
+    const entry: IArchiveEntry = {
+      taskId: task.id,
+      source: task.source,
+      type: task.type,
+      title: task.title,
+      prompt: task.prompt,
+      createdAt: task.createdAt,
+      archivedAt,
+      prefix,
+      originals: outputs.map((output) => output.original),
+      stickers: stickerCount,
+    };
+    this.entries.set(task.id, entry);
+    await this.saveIndex();
+    return entry;
+  }
+
+  /** Matching tasks, newest first. */
+  search(query: IArchiveQuery = {}): IArchiveEntry[] {
+    return [...this.entries.values()]
+      .filter((entry) => matchesQuery(entry, query))
+      .sort(
+        (a, b) => (b.createdAt ?? b.archivedAt) - (a.createdAt ?? a.archivedAt)
+      );
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(taskId: string): IArchiveEntry | undefined {
+    return this.entries.get(taskId);
+  }
+
+  /** Reads an archived file, e.g. an original for re-slicing. */
+  async read(entry: IArchiveEntry, key: string): Promise<Buffer> {
+    const data = await this.backend.get(entry.prefix + key);
+    if (!data) throw new Error(`${entry.prefix + key} is missing`);
+    return data;
+  }
+
+  // The whole index is rewritten, S3 objects can't be appended to
+  private async saveIndex(): Promise<void> {
+    const lines = [...this.entries.values()].map((entry) =>
+      JSON.stringify(entry)
+    );
+    await this.backend.put(INDEX_KEY, lines.join("\n") + "\n");
+  }
+}
+
+/**
+ * ARCHIVE_DIR archives to a local folder; ARCHIVE_S3_BUCKET with
+ * ARCHIVE_S3_ENDPOINT and credentials to a bucket. Undefined when neither is
+ * set.
+ */
+export function createArchiveBackend(
+  env: NodeJS.ProcessEnv = process.env
+): IArchiveBackend | undefined {
+  if (env.ARCHIVE_S3_BUCKET) {
+    const { ARCHIVE_S3_ACCESS_KEY_ID, ARCHIVE_S3_SECRET_ACCESS_KEY } = env;
+    if (!ARCHIVE_S3_ACCESS_KEY_ID || !ARCHIVE_S3_SECRET_ACCESS_KEY) {
+      console.warn(
+        "ARCHIVE_S3_BUCKET needs ARCHIVE_S3_ACCESS_KEY_ID and ARCHIVE_S3_SECRET_ACCESS_KEY, not archiving."
+      );
+      return undefined;
+    }
+    const region = env.ARCHIVE_S3_REGION || DEFAULT_S3_REGION;
+    return new S3ArchiveBackend({
+      endpoint: env.ARCHIVE_S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      bucket: env.ARCHIVE_S3_BUCKET,
+      region,
+      accessKeyId: ARCHIVE_S3_ACCESS_KEY_ID,
+      secretAccessKey: ARCHIVE_S3_SECRET_ACCESS_KEY,
+    });
+  }
+  if (env.ARCHIVE_DIR) return new LocalArchiveBackend(env.ARCHIVE_DIR);
+  return undefined;
+}
@@ -0,0 +1,125 @@
+import "dotenv/config";
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import {
+  createArchiveBackend,
+  IArchiveEntry,
+  IArchiveQuery,
+  TaskArchive,
+} from "./archive";
+
+// --- Constants ---
+const USAGE = `Usage: tsx archiveCli.ts <command> [options]
+
+Searches the task archive (ARCHIVE_DIR or ARCHIVE_S3_* in .env) and copies
+archived originals out, e.g. to re-slice them with the slice script.
+
+Commands:
+  search [text]          List archived tasks, newest first. The text is
+                         matched against prompt, title and task id
+  fetch <task id>...     Copy the originals of tasks to the output directory
+
+Options:
+      --since <date>     Only tasks created on or after this date (YYYY-MM-DD)
+      --until <date>     Only tasks created on or before this date
+  -o, --out <dir>        Output directory for fetch (default: archived)
+      --json             Print search results as JSON lines
+  -h, --help             Show this message`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string | undefined, flag: string, endOfDay = false) {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`--${flag} expects a date like 2025-05-03, got "${value}"`);
+  }
+  // A bare date includes the whole day
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? time + DAY_MS - 1
+    : time;
+}
+
+function formatEntry(entry: IArchiveEntry): string {
+  const date = new Date(entry.createdAt ?? entry.archivedAt)
+    .toISOString()
+    .slice(0, 16)
+    .replace("T", " ");
+  const prompt = (entry.prompt ?? entry.title ?? "").replace(/\s+/g, " ");
+  return `${date}  ${entry.taskId}  ${entry.type}  ${
+    entry.originals.length
+  } originals, ${entry.stickers} stickers\n    ${
+    prompt.length > 100 ? `${prompt.slice(0, 99)}…` : prompt
+  }`;
+}
+
+async function fetchOriginals(
+  archive: TaskArchive,
+  taskIds: string[],
+  out: string
+): Promise<number> {
+  let failed = 0;
+  for (const taskId of taskIds) {
+    const entry = archive.get(taskId);
+    if (!entry) {
+      failed++;
+      console.error(`Task ${taskId} is not in the archive.`);
+      continue;
+    }
+    const dir = path.join(out, entry.prefix);
+    await fs.mkdir(dir, { recursive: true });
+    for (const key of [...entry.originals, "task.json"]) {
+      await fs.writeFile(path.join(dir, key), await archive.read(entry, key));
+    }
+    console.log(`${taskId} -> ${dir}`);
+  }
+  return failed;
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      since: { type: "string" },
+      until: { type: "string" },
+      out: { type: "string", short: "o", default: "archived" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  const [command, ...args] = positionals;
+  if (values.help || !["search", "fetch"].includes(command)) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  const backend = createArchiveBackend();
+  if (!backend) throw new Error("Set ARCHIVE_DIR or ARCHIVE_S3_BUCKET first.");
+  const archive = new TaskArchive(backend);
+  await archive.load();
+
+  if (command === "fetch") {
+    if (!args.length) throw new Error("fetch needs at least one task id.");
+    const failed = await fetchOriginals(archive, args, values.out!);
+    if (failed) process.exit(1);
+    return;
+  }
+
+  const query: IArchiveQuery = {
+    text: args.join(" ") || undefined,
+    since: parseDate(values.since, "since"),
+    until: parseDate(values.until, "until", true),
+  };
+  const entries = archive.search(query);
+  for (const entry of entries) {
+    console.log(values.json ? JSON.stringify(entry) : formatEntry(entry));
+  }
+  if (!values.json) console.log(`${entries.length} tasks found.`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
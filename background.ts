@@ -0,0 +1,253 @@
+import * as cv from "opencv4nodejs";
+import { IGridLayout } from "./grid";
+
+// --- Interfaces ---
+/**
+ * - `alpha`: the image already had transparency, nothing was removed
+ * - `corner`: flood fill from the top-left pixel only (the original behavior)
+ * - `flood`: flood fill from all four corners and the cell gutters
+ * - `median`: flood fill from every border pixel close to the median border color
+ * - `chroma`: key out every pixel close to a chosen color, e.g. a green screen
+ */
+export type BackgroundStrategy =
+  | "alpha"
+  | "corner"
+  | "flood"
+  | "median"
+  | "chroma";
+
+export const BACKGROUND_STRATEGIES = [
+  "flood",
+  "corner",
+  "median",
+  "chroma",
+] as const;
+
+export interface IBackgroundOptions {
+  strategy?: (typeof BACKGROUND_STRATEGIES)[number];
+  tolerance?: number; // Max per-channel difference still counted as background
+  keyColor?: [number, number, number]; // BGR, used by `chroma`
+  layout?: IGridLayout; // Known layout, adds its gutter crossings as seeds
+}
+
+export interface IBackgroundResult {
+  image: cv.Mat; // BGRA
+  strategy: BackgroundStrategy;
+  color?: [number, number, number]; // BGR of the removed background, if known
+}
+
+const DEFAULT_TOLERANCE = 3;
+const DEFAULT_CHROMA_TOLERANCE = 60; // Screens are never perfectly even
+// Seeds only need to resemble the background, so they match more loosely
+const SEED_MATCH_TOLERANCE = 24;
+// Candidate layouts whose gutter crossings are probed when none is known
+const FALLBACK_SEED_LAYOUTS: IGridLayout[] = [
+  { rows: 2, cols: 2 },
+  { rows: 3, cols: 3 },
+];
+const NAMED_COLORS: Record<string, [number, number, number]> = {
+  white: [255, 255, 255],
+  black: [0, 0, 0],
+  green: [0, 255, 0],
+  blue: [255, 0, 0],
+  magenta: [255, 0, 255],
+};
+
+/**
+ * Parses a key color written as `#00ff00`, `00ff00` or a name like `green`.
+ * @returns The color as BGR, or undefined if it can't be parsed.
+ */
+export function parseKeyColor(
+  text: string | undefined
+): [number, number, number] | undefined {
+  if (!text) return undefined;
+  const named = NAMED_COLORS[text.trim().toLowerCase()];
+  if (named) return named;
+  const hex = text.trim().match(/^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i);
+  if (!hex) return undefined;
+  const [r, g, b] = hex.slice(1).map((h) => parseInt(h, 16));
+  return [b, g, r];
+}
+
+/**
+ * Parses a per-channel tolerance, a whole number from 0 to 255.
+ * @returns undefined if it is anything else.
+ */
+export function parseBackgroundTolerance(
+  text: string | undefined
+): number | undefined {
+  if (!text?.trim()) return undefined;
+  const tolerance = Number(text);
+  return Number.isInteger(tolerance) && tolerance >= 0 && tolerance <= 255
+    ? tolerance
+    : undefined;
+}
+
+// --- Helpers ---
+
+function pixelsOf(mat: cv.Mat): number[][] {
+  return (mat.getDataAsArray() as unknown as number[][][]).flat();
+}
+
+function pixelAt(img: cv.Mat, x: number, y: number): number[] {
+  return img.atRaw(y, x) as unknown as number[];
+}
+
+function isClose(a: number[], b: number[], tolerance: number): boolean {
+  return a.every((v, i) => Math.abs(v - b[i]) <= tolerance);
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Per-channel median of the outermost pixel ring. */
+function medianBorderColor(img: cv.Mat): [number, number, number] {
+  const { cols, rows } = img;
+  const border = [
+    new cv.Rect(0, 0, cols, 1),
+    new cv.Rect(0, rows - 1, cols, 1),
+    new cv.Rect(0, 0, 1, rows),
+    new cv.Rect(cols - 1, 0, 1, rows),
+  ].flatMap((rect) => pixelsOf(img.getRegion(rect)));
+  const [b, g, r] = [0, 1, 2].map((c) => median(border.map((px) => px[c])));
+  return [b, g, r];
+}
+
+function gutterSeeds(img: cv.Mat, layouts: IGridLayout[]): cv.Point2[] {
+  const seeds: cv.Point2[] = [];
+  for (const { rows, cols } of layouts) {
+    for (let r = 1; r < rows; r++) {
+      for (let c = 1; c < cols; c++) {
+        const x = Math.round((img.cols * c) / cols);
+        const y = Math.round((img.rows * r) / rows);
+        seeds.push(new cv.Point2(x, y));
+      }
+    }
+  }
+  return seeds;
+}
+
+function borderSeeds(img: cv.Mat): cv.Point2[] {
+  const seeds: cv.Point2[] = [];
+  for (let x = 0; x < img.cols; x++) {
+    seeds.push(new cv.Point2(x, 0), new cv.Point2(x, img.rows - 1));
+  }
+  for (let y = 1; y < img.rows - 1; y++) {
+    seeds.push(new cv.Point2(0, y), new cv.Point2(img.cols - 1, y));
+  }
+  return seeds;
+}
+
+/**
+ * Flood fills the background from every seed into one mask and turns the
+ * filled area transparent. Seeds that already landed in filled background are
+ * skipped, which keeps border seeding cheap.
+ */
+function floodFromSeeds(
+  img: cv.Mat,
+  seeds: cv.Point2[],
+  tolerance: number
+): cv.Mat {
+  const [B, G, R] = img.splitChannels();
+
+  // Create a mask slightly larger than the image for floodFill, initialized to 0s
+  const mask = new cv.Mat(img.rows + 2, img.cols + 2, cv.CV_8UC1, 0);
+  const diff = new cv.Vec3(tolerance, tolerance, tolerance);
+  // Flags: FLOODFILL_MASK_ONLY means the function won't change the input image,
+  // only the mask. The (255 << 8) part sets the fill color for the mask to 255.
+  const flags = cv.FLOODFILL_MASK_ONLY | (255 << 8);
+
+  for (const seed of seeds) {
+    if (mask.at(seed.y + 1, seed.x + 1)) continue; // Already background
+    img.floodFill(seed, new cv.Vec3(1, 1, 1), mask, diff, diff, flags);
+  }
+
+  // Crop the mask back to original image size (remove the 1px border added for floodFill)
+  const croppedMask = mask.getRegion(new cv.Rect(1, 1, img.cols, img.rows));
+
+  // Invert the mask: background (marked as 255) becomes 0 (transparent),
+  // foreground (originally 0) becomes 255 (opaque).
+  const alpha = croppedMask.threshold(254, 255, cv.THRESH_BINARY_INV);
+  return new cv.Mat([B, G, R, alpha]);
+}
+
+function chromaKey(
+  img: cv.Mat,
+  color: [number, number, number],
+  tolerance: number
+): cv.Mat {
+  const [B, G, R] = img.splitChannels();
+  const clamp = (v: number) => Math.max(0, Math.min(255, v));
+  const [b, g, r] = color;
+  const lower = new cv.Vec3(
+    clamp(b - tolerance),
+    clamp(g - tolerance),
+    clamp(r - tolerance)
+  );
+  const upper = new cv.Vec3(
+    clamp(b + tolerance),
+    clamp(g + tolerance),
+    clamp(r + tolerance)
+  );
+  const alpha = img.inRange(lower, upper).bitwiseNot();
+  return new cv.Mat([B, G, R, alpha]);
+}
+
+// --- Removal ---
+
+/**
+ * Turns the background of a 3-channel (BGR) image transparent using the
+ * configured strategy. Defaults to flood filling from the corners and gutters,
+ * which copes with off-white corners and subjects touching one corner.
+ */
+export function removeBackground(
+  img: cv.Mat,
+  opts: IBackgroundOptions = {}
+): IBackgroundResult {
+  const { strategy = "flood" } = opts;
+  const tolerance =
+    opts.tolerance ??
+    (strategy === "chroma" ? DEFAULT_CHROMA_TOLERANCE : DEFAULT_TOLERANCE);
+  const last = { x: img.cols - 1, y: img.rows - 1 };
+
+  switch (strategy) {
+    case "corner": {
+      const color = pixelAt(img, 0, 0) as [number, number, number];
+      const image = floodFromSeeds(img, [new cv.Point2(0, 0)], tolerance);
+      return { image, strategy, color };
+    }
+    case "median": {
+      const color = medianBorderColor(img);
+      const seeds = borderSeeds(img).filter((p) =>
+        isClose(pixelAt(img, p.x, p.y), color, SEED_MATCH_TOLERANCE)
+      );
+      return { image: floodFromSeeds(img, seeds, tolerance), strategy, color };
+    }
+    case "chroma": {
+      const color = opts.keyColor ?? NAMED_COLORS.green;
+      return { image: chromaKey(img, color, tolerance), strategy, color };
+    }
+    case "flood": {
+      const corners = [
+        new cv.Point2(0, 0),
+        new cv.Point2(last.x, 0),
+        new cv.Point2(0, last.y),
+        new cv.Point2(last.x, last.y),
+      ];
+      const gutters = gutterSeeds(
+        img,
+        opts.layout ? [opts.layout] : FALLBACK_SEED_LAYOUTS
+      );
+      // Seeds only count if they look like the background, so a subject
+      // touching a corner or sitting on a guessed crossing is never flooded
+      const color = medianBorderColor(img);
+      const seeds = [...corners, ...gutters].filter((p) =>
+        isClose(pixelAt(img, p.x, p.y), color, SEED_MATCH_TOLERANCE)
+      );
+      const image = floodFromSeeds(img, seeds, tolerance);
+      return { image, strategy, color };
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { ITask } from "./source";
+import { escapeHtml } from "./html";
+
+// --- Constants ---
+const MAX_PROMPT_CHARS = 600; // Leaves room for the rest of a caption
+export const CAPTION_LIMIT = 1024; // Telegram's limit for media captions
+const TEMPLATE_FIELDS = [
+  "title",
+  "prompt",
+  "model",
+  "seed",
+  "width",
+  "height",
+  "variants",
+  "link",
+  "id",
+  "source",
+] as const;
+
+type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/** Plain text values of a task's template fields, empty when unknown. */
+function getTemplateValues(task: ITask): Record<TemplateField, string> {
+  const [first] = task.outputs;
+  // Outputs of one task may differ in seed, list each once
+  const seeds = [
+    ...new Set(task.outputs.map((output) => output.seed).filter(Boolean)),
+  ];
+  return {
+    title: task.title ?? `Task ${task.id}`,
+    prompt: truncate(task.prompt?.trim() ?? "", MAX_PROMPT_CHARS),
+    model: task.model ?? "",
+    seed: seeds.join(", "),
+    width: first?.width?.toString() ?? "",
+    height: first?.height?.toString() ?? "",
+    variants: task.variants?.toString() ?? "",
+    link: task.link ?? "",
+    id: task.id,
+    source: task.source,
+  };
+}
+
+/**
+ * Fills a MESSAGE_TEMPLATE such as
+ * `<a href="{link}">{title}</a> · {model} · {width}x{height}\n<i>{prompt}</i>`.
+ * The template is HTML written by the owner; every `{field}` is escaped, so
+ * prompts can't break the markup. A literal `\n` stands for a line break.
+ * Unknown fields are left as they are.
+ */
+export function renderTaskTemplate(template: string, task: ITask): string {
+  const values = getTemplateValues(task);
+  return template
+    .replace(/\\n/g, "\n")
+    .replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+      (TEMPLATE_FIELDS as readonly string[]).includes(name)
+        ? escapeHtml(values[name as TemplateField])
+        : placeholder
+    )
+    .trim();
+}
@@ -0,0 +1,140 @@
+import { Context, Telegraf } from "telegraf";
+import { message } from "telegraf/filters";
+
+// --- Interfaces ---
+/** What the bot commands can see and change on the running notificator. */
+export interface IBotController {
+  getStatusText(): string;
+  pause(): void;
+  resume(): void;
+  poll(): Promise<void>;
+  resend(taskId: string): Promise<string>;
+  setFeather(px: number): void;
+  getDuplicatesText(): string;
+  updateHeaders(text: string): Promise<string>;
+}
+
+export const MAX_FEATHER_PX = 100;
+const HELP_TEXT = [
+  "/status - polling state, next fetch, lastId and last error",
+  "/pause - stop polling Sora",
+  "/resume - resume polling",
+  "/poll - fetch notifications right now",
+  "/resend <taskId> - process a task again",
+  "/feather <px> - change the feather radius",
+  "/duplicates - list the stickers sent more than once",
+  "/headers <snippet> - replace the Sora headers (JSON, Copy as fetch, or a .txt file with this caption)",
+].join("\n");
+
+/** Removes a message holding credentials from the chat history. */
+async function deleteSecret(ctx: Context): Promise<void> {
+  try {
+    await ctx.deleteMessage();
+  } catch (error) {
+    console.warn("Could not delete the message with the headers:", error);
+  }
+}
+
+/**
+ * Parses a feather radius, a whole number of px from 0 to MAX_FEATHER_PX.
+ * @returns undefined if it is anything else.
+ */
+export function parseFeatherPx(text: string | undefined): number | undefined {
+  if (!text?.trim()) return undefined;
+  const px = Number(text);
+  return Number.isInteger(px) && px >= 0 && px <= MAX_FEATHER_PX
+    ? px
+    : undefined;
+}
+
+function getArgs(ctx: Context): string[] {
+  const text = ctx.message && "text" in ctx.message ? ctx.message.text : "";
+  return text.split(/\s+/).slice(1).filter(Boolean);
+}
+
+/**
+ * Registers the owner-only control commands. Updates from anyone else are
+ * ignored silently, so the bot can live in a shared chat.
+ */
+export function registerCommands(
+  bot: Telegraf,
+  controller: IBotController,
+  ownerId: number
+): void {
+  bot.use((ctx, next) => {
+    if (ctx.from?.id !== ownerId) return;
+    return next();
+  });
+
+  bot.command(["start", "help"], (ctx) => ctx.reply(HELP_TEXT));
+
+  bot.command("status", (ctx) =>
+    ctx.reply(controller.getStatusText(), { parse_mode: "HTML" })
+  );
+
+  bot.command("pause", (ctx) => {
+    controller.pause();
+    return ctx.reply("Polling paused. Use /resume to continue.");
+  });
+
+  bot.command("resume", (ctx) => {
+    controller.resume();
+    return ctx.reply("Polling resumed.");
+  });
+
+  bot.command("poll", async (ctx) => {
+    await ctx.reply("Fetching notifications...");
+    await controller.poll();
+  });
+
+  bot.command("resend", async (ctx) => {
+    const [taskId] = getArgs(ctx);
+    if (!taskId) return ctx.reply("Usage: /resend <taskId>");
+    return ctx.reply(await controller.resend(taskId));
+  });
+
+  bot.command("feather", (ctx) => {
+    const px = parseFeatherPx(getArgs(ctx)[0]);
+    if (px === undefined) {
+      return ctx.reply(`Usage: /feather <px>, 0 to ${MAX_FEATHER_PX}`);
+    }
+    controller.setFeather(px);
+    return ctx.reply(`Feather radius set to ${px}px.`);
+  });
+
+  bot.command("duplicates", (ctx) => ctx.reply(controller.getDuplicatesText()));
+
+  bot.command("headers", async (ctx) => {
+    const text = ctx.payload.trim();
+    if (!text) {
+      return ctx.reply(
+        "Usage: /headers <snippet>, or send the snippet as a file with /headers as caption"
+      );
+    }
+    await deleteSecret(ctx);
+    return ctx.reply(await controller.updateHeaders(text));
+  });
+
+  // Snippets with cookies easily exceed Telegram's message length
+  bot.on(message("document"), async (ctx, next) => {
+    if (!/^\/headers\b/.test(ctx.message.caption ?? "")) return next();
+    let text: string;
+    try {
+      const link = await ctx.telegram.getFileLink(ctx.message.document.file_id);
+      const req = await fetch(link);
+      if (!req.ok) throw new Error(`download failed: ${req.status}`);
+      text = await req.text();
+    } catch (error) {
+      console.error("Failed to read the headers file:", error);
+      return ctx.reply(`Could not read the file (${error}), send it again.`);
+    } finally {
+      // The secret must not stay in the chat, whether it could be read or not
+      await deleteSecret(ctx);
+    }
+    return ctx.reply(await controller.updateHeaders(text));
+  });
+
+  bot.catch((err, ctx) => {
+    console.error(`Error handling update ${ctx.update.update_id}:`, err);
+  });
+}
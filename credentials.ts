@@ -0,0 +1,119 @@
+import { watch, FSWatcher } from "fs";
+import fs from "fs/promises";
+import { STATE_DIR, statePath } from "./paths";
+
+// --- Constants ---
+const HEADERS_FILE_NAME = "headers.json";
+const HEADERS_FILE_PATH = statePath(HEADERS_FILE_NAME);
+const RELOAD_DEBOUNCE_MS = 500; // Editors often write a file in several steps
+
+export type Headers = Record<string, string>;
+
+/** HTTP statuses meaning the Sora session is no longer valid. */
+export function isAuthFailure(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Extracts request headers from whatever the owner pasted:
+ * - a JSON object, like the contents of headers.json
+ * - a DevTools "Copy as fetch" snippet, `fetch("...", { "headers": {...} })`
+ * - raw `Name: value` lines, as shown in the Network tab
+ * @returns undefined when no headers could be found.
+ */
+export function parseHeadersSnippet(text: string): Headers | undefined {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+  const fetchHeaders = trimmed.match(/["']?headers["']?\s*:\s*(\{[\s\S]*?\})/);
+  if (fetchHeaders) candidates.unshift(fetchHeaders[1]);
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      const headers = toHeaders(parsed);
+      if (headers) return headers;
+    } catch {
+      // Not JSON, try the next format
+    }
+  }
+
+  const lines: Headers = {};
+  for (const line of trimmed.split("\n")) {
+    const match = line.match(/^\s*([A-Za-z0-9-]+)\s*:\s*(.+?)\s*$/);
+    if (match) lines[match[1]] = match[2];
+  }
+  return toHeaders(lines);
+}
+
+function toHeaders(value: unknown): Headers | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return undefined;
+  }
+  const entries = Object.entries(value).filter(
+    (entry): entry is [string, string] => typeof entry[1] === "string"
+  );
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Holds the Sora request headers. The file is watched, so edits to
+ * headers.json take effect without a restart.
+ */
+export class CredentialStore {
+  private current: Headers = {};
+  private watcher?: FSWatcher;
+  private reloadTimeoutId?: NodeJS.Timeout;
+
+  get headers(): Headers {
+    return this.current;
+  }
+
+  /** @returns true when the headers changed. */
+  async load(): Promise<boolean> {
+    try {
+      const file = await fs.readFile(HEADERS_FILE_PATH, "utf8");
+      const headers = toHeaders(JSON.parse(file));
+      if (!headers) throw new Error("no headers found in the file");
+      const changed = JSON.stringify(headers) !== JSON.stringify(this.current);
+      this.current = headers;
+      return changed;
+    } catch (error: any) {
+      console.error(
+        `Could not read or parse ${HEADERS_FILE_PATH}. Error: ${error.message}`
+      );
+      return false;
+    }
+  }
+
+  async save(headers: Headers): Promise<void> {
+    this.current = headers;
+    await fs.writeFile(
+      HEADERS_FILE_PATH,
+      JSON.stringify(headers, null, 2),
+      "utf8"
+    );
+    console.log(`Saved new headers to ${HEADERS_FILE_PATH}`);
+  }
+
+  /**
+   * Reloads the headers whenever headers.json changes on disk. The folder is
+   * watched rather than the file, since editors replace files on save.
+   */
+  watch(onChange: () => void): void {
+    this.watcher = watch(STATE_DIR, (_event, filename) => {
+      if (filename !== HEADERS_FILE_NAME) return;
+      if (this.reloadTimeoutId) clearTimeout(this.reloadTimeoutId);
+      this.reloadTimeoutId = setTimeout(async () => {
+        if (await this.load()) {
+          console.log(`Reloaded ${HEADERS_FILE_PATH}`);
+          onChange();
+        }
+      }, RELOAD_DEBOUNCE_MS);
+    });
+  }
+
+  close(): void {
+    if (this.reloadTimeoutId) clearTimeout(this.reloadTimeoutId);
+    this.watcher?.close();
+  }
+}
@@ -1,116 +1,416 @@
 import * as cv from "opencv4nodejs";
+import {
+  detectGridLayout,
+  formatGridLayout,
+  IGridLayout,
+  uniformEdges,
+} from "./grid";
+import {
+  IBackgroundOptions,
+  IBackgroundResult,
+  removeBackground,
+} from "./background";
+import { applyStickerStyle, IStickerStyle } from "./style";
+import { readOutput } from "./source";
+import { groupComponents, IComponent, SliceMode } from "./segment";
+import { differenceHash } from "./dedup";
+import {
+  assessCrops,
+  IBoundingBox,
+  ICellMeasurement,
+  ICropReport,
+} from "./quality";
 
-export async function cropFeatheredStickers(url: string, featherPx = 10) {
-  const req = await fetch(url);
-  const buffer = await req.arrayBuffer();
-  let img = cv.imdecode(Buffer.from(buffer), cv.IMREAD_UNCHANGED);
-  // --- fallback for white-background (3-channel) images ---
-  if (img.channels === 3) {
-    const [B, G, R] = img.splitChannels();
-
-    // Use flood fill to detect background from top-left corner
-    // Create a mask slightly larger than the image for floodFill, initialized to 0s
-    const mask = new cv.Mat(img.rows + 2, img.cols + 2, cv.CV_8UC1, 0);
-    // Define color tolerance for flood fill (adjust if needed for different backgrounds)
-    const loDiff = new cv.Vec3(3, 3, 3); // Lower difference tolerance
-    const upDiff = new cv.Vec3(3, 3, 3); // Upper difference tolerance
-    // Flags: FLOODFILL_MASK_ONLY means the function won't change the input image,
-    // only the mask. The (255 << 8) part sets the fill color for the mask to 255.
-    const flags = cv.FLOODFILL_MASK_ONLY | (255 << 8);
-
-    // Flood fill from the top-left corner (0,0)
-    // The function fills the mask where pixels are connected to the seed point (0,0)
-    // and within the color tolerance (loDiff, upDiff) compared to the seed point.
-    img.floodFill(
-      new cv.Point2(0, 0), // seedPoint
-      new cv.Vec3(1, 1, 1), // newVal
-      mask, // mask
-      loDiff, // loDiff
-      upDiff, // upDiff
-      flags // flags
-    );
+export interface INormalizeOptions {
+  size?: number; // Canvas side in px, Telegram wants exactly 512
+  margin?: number; // Transparent padding kept around the subject, in px
+  maxBytes?: number; // Byte budget, 64 KB for static stickers
+  minQuality?: number; // Lowest WebP quality we are willing to go down to
+  qualityStep?: number;
+}
+
+export interface ISliceOptions {
+  featherPx?: number; // Radius of the soft alpha edge
+  layout?: IGridLayout; // Force a layout instead of detecting it
+  mode?: SliceMode; // Defaults to "grid"
+}
+
+export interface ICropOptions extends ISliceOptions {
+  background?: IBackgroundOptions;
+  style?: IStickerStyle; // Outline, shadow and tint applied to every crop
+}
+
+export interface IStickerCrop {
+  index: number; // Cell index, or sticker index in segment mode, row by row
+  row: number;
+  col: number;
+  bbox: IBoundingBox; // Union rect of the cell's contours in the source image
+  image: cv.Mat; // Feathered BGRA crop
+  report: ICropReport;
+}
+
+export interface ISliceResult {
+  mode: SliceMode;
+  layout: IGridLayout; // Rows found and widest row in segment mode
+  detected: boolean; // False when the layout was forced
+  crops: IStickerCrop[];
+  reports: ICropReport[]; // Every cell, including the empty ones
+  specks?: number; // Stray pieces left out in segment mode
+}
+
+export interface IStickerImage {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  bytes: number;
+  quality: number;
+}
+
+const DEFAULT_NORMALIZE_OPTIONS: Required<INormalizeOptions> = {
+  size: 512,
+  margin: 0,
+  maxBytes: 64 * 1024,
+  minQuality: 10,
+  qualityStep: 10,
+};
+
+/**
+ * Scales a BGRA image so its longest side fills the canvas (minus margin) and
+ * centers it on a transparent `size`×`size` canvas.
+ */
+export function fitToCanvas(img: cv.Mat, size: number, margin = 0): cv.Mat {
+  const inner = Math.max(1, size - margin * 2);
+  const scale = inner / Math.max(img.cols, img.rows);
+  const w = Math.max(1, Math.round(img.cols * scale));
+  const h = Math.max(1, Math.round(img.rows * scale));
+  // INTER_AREA avoids moire when shrinking, cubic keeps edges smooth when enlarging
+  const resized = img.resize(
+    h,
+    w,
+    0,
+    0,
+    scale < 1 ? cv.INTER_AREA : cv.INTER_CUBIC
+  );
+
+  const top = Math.floor((size - h) / 2);
+  const left = Math.floor((size - w) / 2);
+  return resized.copyMakeBorder(
+    top,
+    size - h - top,
+    left,
+    size - w - left,
+    cv.BORDER_CONSTANT,
+    new cv.Vec4(0, 0, 0, 0)
+  );
+}
 
-    // Crop the mask back to original image size (remove the 1px border added for floodFill)
-    const croppedMask = mask.getRegion(new cv.Rect(1, 1, img.cols, img.rows));
+/**
+ * Fits a BGRA crop onto the sticker canvas and encodes it as WebP, lowering
+ * the quality step by step until the file fits the byte budget.
+ * The result may still exceed `maxBytes` if `minQuality` is reached; callers
+ * should check `bytes` themselves.
+ */
+export function normalizeSticker(
+  img: cv.Mat,
+  opts: INormalizeOptions = {}
+): IStickerImage {
+  const { size, margin, maxBytes, minQuality, qualityStep } = {
+    ...DEFAULT_NORMALIZE_OPTIONS,
+    ...opts,
+  };
+  const canvas = fitToCanvas(img, size, margin);
 
-    // Invert the mask: background (marked as 255) becomes 0 (transparent),
-    // foreground (originally 0) becomes 255 (opaque).
-    const alpha = croppedMask.threshold(254, 255, cv.THRESH_BINARY_INV);
+  let quality = 100;
+  let buffer = cv.imencode(".webp", canvas, [cv.IMWRITE_WEBP_QUALITY, quality]);
+  while (buffer.length > maxBytes && quality > minQuality) {
+    quality = Math.max(minQuality, quality - qualityStep);
+    buffer = cv.imencode(".webp", canvas, [cv.IMWRITE_WEBP_QUALITY, quality]);
+  }
+
+  return {
+    buffer,
+    width: canvas.cols,
+    height: canvas.rows,
+    bytes: buffer.length,
+    quality,
+  };
+}
 
-    // Combine original color channels with the new alpha mask
-    img = new cv.Mat([B, G, R, alpha]);
-  } else if (img.channels !== 4) {
+/** Converts a decoded image to BGRA, removing its background if needed. */
+export function toBGRA(
+  img: cv.Mat,
+  background: IBackgroundOptions = {}
+): IBackgroundResult {
+  if (img.channels === 3) return removeBackground(img, background);
+  if (img.channels !== 4) {
     // Handle images that are not 3-channel (BGR) or 4-channel (BGRA)
     throw new Error(`Unsupported image format (${img.channels} channels)`);
   }
-  // --------------------------------------------------------
+  return { image: img, strategy: "alpha" };
+}
 
-  // build cleaned alpha mask & find contours
+/**
+ * Perceptual hash of a feathered BGRA crop, to spot the same sticker again.
+ * Colors are already faded to black where the crop is transparent.
+ */
+export function perceptualHash(img: cv.Mat): string {
+  const thumbnail = img
+    .cvtColor(cv.COLOR_BGRA2GRAY)
+    .resize(8, 9, 0, 0, cv.INTER_AREA);
+  return differenceHash(thumbnail.getDataAsArray());
+}
+
+/** Decodes an encoded image (WebP, PNG, JPEG...) into BGRA. */
+export function decodeImage(
+  buffer: Buffer,
+  background: IBackgroundOptions = {}
+): IBackgroundResult {
+  return toBGRA(cv.imdecode(buffer, cv.IMREAD_UNCHANGED), background);
+}
+
+export async function cropFeatheredStickers(
+  url: string,
+  opts: ICropOptions = {},
+  normalize: INormalizeOptions = {}
+) {
+  const original = await readOutput(url);
+  const { image, strategy } = decodeImage(original, {
+    layout: opts.layout,
+    ...opts.background,
+  });
+  const { mode, layout, crops, reports } = sliceStickers(image, opts);
+  return {
+    original, // The sheet as downloaded, for the archive
+    mode,
+    layout,
+    background: strategy,
+    reports: crops.map((crop) => crop.report), // One per sticker
+    hashes: crops.map((crop) => perceptualHash(crop.image)), // Before styling
+    emptyCells: reports.length - crops.length,
+    stickers: crops.map((crop) =>
+      normalizeSticker(
+        opts.style ? applyStickerStyle(crop.image, opts.style) : crop.image,
+        normalize
+      )
+    ),
+  };
+}
+
+/** Binary mask of the opaque pixels, without tiny speckles. */
+function getSubjectMask(img: cv.Mat): cv.Mat {
   const alpha = img.splitChannels()[3];
   const bin = alpha.threshold(1, 255, cv.THRESH_BINARY);
-  const clean = bin.morphologyEx(
+  return bin.morphologyEx(
+    cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5)),
+    cv.MORPH_OPEN
+  );
+}
+
+/**
+ * Cuts `bbox` out of the sheet with a feathered alpha edge. `keep` limits the
+ * crop to some of the opaque pixels in it, e.g. to leave out the corner of a
+ * neighbor reaching into the rect.
+ */
+function featherRegion(
+  img: cv.Mat,
+  bbox: IBoundingBox,
+  featherPx: number,
+  keep?: cv.Mat
+): cv.Mat {
+  const region = new cv.Rect(bbox.x, bbox.y, bbox.width, bbox.height);
+  const crop = img.getRegion(region);
+
+  // 1) build binary mask from the crop's own alpha channel (preserves holes!)
+  const channels = crop.splitChannels();
+  const alphaCrop = channels[3];
+  let maskBin = alphaCrop.threshold(1, 255, cv.THRESH_BINARY);
+  if (keep) maskBin = maskBin.bitwiseAnd(keep);
+
+  // optional: clean up tiny speckles
+  const cleanMask = maskBin.morphologyEx(
     cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5)),
     cv.MORPH_OPEN
   );
+
+  // 2) feather it
+  const k = featherPx * 2 + 1;
+  const maskBlur = cleanMask.gaussianBlur(new cv.Size(k, k), 0);
+
+  // normalized float mask for color multiplication
+  const maskF = maskBlur.convertTo(cv.CV_32FC1, 1 / 255);
+
+  // 3) apply to each color channel
+  const [B2, G2, R2] = channels;
+  const Bf = B2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
+  const Gf = G2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
+  const Rf = R2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
+
+  // 4) merge your faded colors + the blurred alpha
+  return new cv.Mat([Bf, Gf, Rf, maskBlur]);
+}
+
+/**
+ * Splits a BGRA sticker sheet into grid cells and returns a feathered crop of
+ * every non-empty cell together with its position in the source image and a
+ * quality report. With `mode: "segment"` the stickers are found without a
+ * grid instead, see segmentStickers.
+ */
+export function sliceStickers(
+  img: cv.Mat,
+  opts: ISliceOptions = {}
+): ISliceResult {
+  if (opts.mode === "segment") return segmentStickers(img, opts);
+  const { featherPx = 10 } = opts;
+  // build cleaned alpha mask & find contours
+  const clean = getSubjectMask(img);
   const contours = clean.findContours(cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
-  const size = contours.length > 6 ? 3 : 2;
+  // forced layout > gutters in the mask > legacy contour-count guess
+  const detected = opts.layout ? undefined : detectGridLayout(clean);
+  const side = contours.length > 6 ? 3 : 2;
+  const layout = opts.layout ?? detected ?? { rows: side, cols: side };
+  const { rows, cols } = layout;
+  console.log(
+    `Slicing ${img.cols}x${img.rows} sheet as a ${formatGridLayout(
+      layout
+    )} grid (${opts.layout ? "forced" : detected ? "detected" : "guessed"}).`
+  );
 
-  // grid-cluster contours
-  const cellW = Math.floor(img.cols / size);
-  const cellH = Math.floor(img.rows / size);
-  const cells: cv.Contour[][] = Array(size ** 2)
+  // grid-cluster contours, between the gutters when they were found
+  const colEdges = layout.colEdges ?? uniformEdges(cols, img.cols);
+  const rowEdges = layout.rowEdges ?? uniformEdges(rows, img.rows);
+  // Index of the cell holding `pos`: the inner boundaries left of it
+  const cellAt = (edges: number[], pos: number) =>
+    edges.slice(1, -1).filter((edge) => edge <= pos).length;
+  const cells: cv.Contour[][] = Array(rows * cols)
     .fill(0)
     .map(() => []);
 
   contours.forEach((c) => {
     const { x, y, width, height } = c.boundingRect();
-    const col = Math.min(Math.floor((x + width / 2) / cellW), size - 1);
-    const row = Math.min(Math.floor((y + height / 2) / cellH), size - 1);
-    cells[row * size + col].push(c);
+    const col = cellAt(colEdges, x + width / 2);
+    const row = cellAt(rowEdges, y + height / 2);
+    cells[row * cols + col].push(c);
   });
 
-  const results: Buffer[] = [];
-  cells.forEach((cluster, idx) => {
-    if (!cluster.length) return;
-    // union-rect
+  // union-rect of every cell, then score them against each other
+  const measurements: ICellMeasurement[] = cells.map((cluster, idx) => {
+    const row = Math.floor(idx / cols);
+    const col = idx % cols;
+    const cell = {
+      x: colEdges[col],
+      y: rowEdges[row],
+      width: colEdges[col + 1] - colEdges[col],
+      height: rowEdges[row + 1] - rowEdges[row],
+    };
+    if (!cluster.length) return { index: idx, row, col, cell, areas: [] };
     const rects = cluster.map((c) => c.boundingRect());
     const x0 = Math.min(...rects.map((r) => r.x));
     const y0 = Math.min(...rects.map((r) => r.y));
     const x1 = Math.max(...rects.map((r) => r.x + r.width));
     const y1 = Math.max(...rects.map((r) => r.y + r.height));
-    const w = x1 - x0,
-      h = y1 - y0;
-    const region = new cv.Rect(x0, y0, w, h);
-    const crop = img.getRegion(region);
-
-    // 1) build binary mask from the crop's own alpha channel (preserves holes!)
-    const channels = crop.splitChannels();
-    const alphaCrop = channels[3];
-    const maskBin = alphaCrop.threshold(1, 255, cv.THRESH_BINARY);
-
-    // optional: clean up tiny speckles
-    const cleanMask = maskBin.morphologyEx(
-      cv.getStructuringElement(cv.MORPH_ELLIPSE, new cv.Size(5, 5)),
-      cv.MORPH_OPEN
-    );
+    return {
+      index: idx,
+      row,
+      col,
+      cell,
+      bbox: { x: x0, y: y0, width: x1 - x0, height: y1 - y0 },
+      areas: cluster.map((c) => c.area),
+    };
+  });
+  const reports = assessCrops(measurements, {
+    width: img.cols,
+    height: img.rows,
+  });
 
-    // 2) feather it
-    const k = featherPx * 2 + 1;
-    const maskBlur = cleanMask.gaussianBlur(new cv.Size(k, k), 0);
+  const crops: IStickerCrop[] = [];
+  measurements.forEach(({ index: idx, row, col, bbox }) => {
+    if (!bbox) return;
+    crops.push({
+      index: idx,
+      row,
+      col,
+      bbox,
+      image: featherRegion(img, bbox, featherPx),
+      report: reports[idx],
+    });
+  });
 
-    // normalized float mask for color multiplication
-    const maskF = maskBlur.convertTo(cv.CV_32FC1, 1 / 255);
+  return { mode: "grid", layout, detected: !!detected, crops, reports };
+}
+
+/**
+ * Finds the stickers of a sheet without a grid, for uneven spacing, offset
+ * rows or an unexpected number of items: connected components of the alpha
+ * mask are merged with the pieces close to them (groupComponents), and
+ * every crop only keeps its own pieces. The layout reports the rows found
+ * and the most stickers in one of them.
+ */
+export function segmentStickers(
+  img: cv.Mat,
+  opts: ISliceOptions = {}
+): ISliceResult {
+  const { featherPx = 10 } = opts;
+  const { labels, stats } = getSubjectMask(img).connectedComponentsWithStats(
+    8,
+    cv.CV_32S
+  );
+  // Row 0 of the stats is the background
+  const components: IComponent[] = stats
+    .getDataAsArray()
+    .slice(1)
+    .map(([x, y, width, height, area]) => ({
+      bbox: { x, y, width, height },
+      area,
+    }));
+  const segmentation = groupComponents(components);
+  const { instances, specks } = segmentation;
+  const layout = { rows: segmentation.rows, cols: segmentation.cols };
+  console.log(
+    `Segmented ${img.cols}x${img.rows} sheet into ${
+      instances.length
+    } stickers in ${layout.rows} rows${
+      specks.length ? `, left out ${specks.length} specks` : ""
+    }.`
+  );
 
-    // 3) apply to each color channel
-    const [B2, G2, R2] = channels;
-    const Bf = B2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
-    const Gf = G2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
-    const Rf = R2.convertTo(cv.CV_32FC1).hMul(maskF).convertTo(cv.CV_8UC1);
+  // No cells to cross, the whole sheet is every sticker's "cell"
+  const sheet = { x: 0, y: 0, width: img.cols, height: img.rows };
+  const reports = assessCrops(
+    instances.map(({ row, col, bbox, area }, index) => ({
+      index,
+      row,
+      col,
+      cell: sheet,
+      bbox,
+      areas: [area], // Merged on purpose, not separate subjects
+    })),
+    sheet
+  );
 
-    // 4) merge your faded colors + the blurred alpha
-    const result = new cv.Mat([Bf, Gf, Rf, maskBlur]);
-    results.push(cv.imencode(".webp", result));
+  const crops = instances.map(({ row, col, bbox, pieces }, index) => {
+    const region = labels.getRegion(
+      new cv.Rect(bbox.x, bbox.y, bbox.width, bbox.height)
+    );
+    // Component i has label i + 1
+    const keep = pieces
+      .map((i) => region.inRange(i + 1, i + 1))
+      .reduce((mask, piece) => mask.bitwiseOr(piece));
+    return {
+      index,
+      row,
+      col,
+      bbox,
+      image: featherRegion(img, bbox, featherPx, keep),
+      report: reports[index],
+    };
   });
 
-  return results;
+  return {
+    mode: "segment",
+    layout,
+    detected: true,
+    crops,
+    reports,
+    specks: specks.length,
+  };
 }
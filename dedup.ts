@@ -0,0 +1,326 @@
+import fs from "fs/promises";
+import { statePath } from "./paths";
+
+// --- Constants ---
+const HASHES_FILE_PATH = statePath("sticker-hashes.jsonl");
+export const DEDUP_MODES = ["flag", "skip", "off"] as const;
+// Of the 64 bits; recompression and feathering stay well below this
+export const DEFAULT_DEDUP_DISTANCE = 6;
+// The file is rewritten once it has this many lines per sticker
+const COMPACT_RATIO = 2;
+// Up to this distance clusters are only looked for among hashes sharing a
+// band; further apart, bands get too narrow to narrow anything down
+const MAX_BANDED_DISTANCE = 15;
+// Keeps /duplicates within Telegram's message length
+const MAX_LISTED_CLUSTERS = 20;
+const MAX_LISTED_STICKERS = 8;
+
+// --- Interfaces ---
+export type DedupMode = (typeof DEDUP_MODES)[number];
+
+export interface IHashRecord {
+  hash: string; // 64 bit difference hash as hex
+  taskId: string;
+  index: number; // Sticker index within the task
+  at: number;
+}
+
+export interface IDuplicateMatch {
+  index: number; // Sticker of the current task
+  of: { taskId: string; index: number }; // The one it repeats
+  distance: number;
+}
+
+export function parseDedupMode(
+  text: string | undefined
+): DedupMode | undefined {
+  const mode = text?.trim().toLowerCase();
+  return DEDUP_MODES.find((known) => known === mode);
+}
+
+/**
+ * Parses a distance in bits, a whole number from 0 to 64.
+ * @returns undefined if it is anything else.
+ */
+export function parseDedupDistance(
+  text: string | undefined
+): number | undefined {
+  if (!text?.trim()) return undefined;
+  const distance = Number(text);
+  return Number.isInteger(distance) && distance >= 0 && distance <= 64
+    ? distance
+    : undefined;
+}
+
+/**
+ * Difference hash of a 9x8 grayscale thumbnail: one bit per pixel, set when
+ * it is brighter than its right neighbor. Survives scaling, recompression
+ * and small shifts, unlike a byte hash.
+ */
+export function differenceHash(gray: number[][]): string {
+  let bits = "";
+  for (const row of gray) {
+    for (let x = 0; x + 1 < row.length; x++) {
+      bits += row[x] > row[x + 1] ? "1" : "0";
+    }
+  }
+  return BigInt(`0b${bits}`)
+    .toString(16)
+    .padStart(bits.length / 4, "0");
+}
+
+/** Set bits of a 32 bit integer. */
+function popcount32(n: number): number {
+  n -= (n >>> 1) & 0x55555555;
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  n = (n + (n >>> 4)) & 0x0f0f0f0f;
+  return Math.imul(n, 0x01010101) >>> 24;
+}
+
+/** A 64 bit hash as its high and low 32 bits, the most JS bit ops take. */
+function toHalves(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16), parseInt(hash.slice(8, 16), 16)];
+}
+
+function halvesDistance(a: [number, number], b: [number, number]): number {
+  return popcount32(a[0] ^ b[0]) + popcount32(a[1] ^ b[1]);
+}
+
+export function hammingDistance(a: string, b: string): number {
+  return halvesDistance(toHalves(a), toHalves(b));
+}
+
+/**
+ * Groups of records that may lie within `maxDistance` of each other. Cut
+ * into `maxDistance + 1` bands, two such hashes agree on at least one whole
+ * band, so only records sharing a band need comparing.
+ */
+function candidateGroups(
+  records: IHashRecord[],
+  maxDistance: number
+): number[][] {
+  if (maxDistance > MAX_BANDED_DISTANCE) return [records.map((_, i) => i)];
+  const bands = maxDistance + 1;
+  const buckets = new Map<string, number[]>();
+  records.forEach((record, i) => {
+    const bits = BigInt(`0x${record.hash}`).toString(2).padStart(64, "0");
+    for (let band = 0; band < bands; band++) {
+      const start = Math.floor((band * 64) / bands);
+      const end = Math.floor(((band + 1) * 64) / bands);
+      const key = `${band}:${bits.slice(start, end)}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(i);
+      else buckets.set(key, [i]);
+    }
+  });
+  return [...buckets.values()].filter((bucket) => bucket.length > 1);
+}
+
+const recordKey = (taskId: string, index: number) => `${taskId}#${index}`;
+
+/**
+ * Groups records whose hashes are within `maxDistance` of each other, also
+ * through a chain of near-duplicates.
+ * @returns Clusters of at least two stickers, the biggest first.
+ */
+export function findDuplicateClusters(
+  records: IHashRecord[],
+  maxDistance: number
+): IHashRecord[][] {
+  const parent = records.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const halves = records.map((record) => toHalves(record.hash));
+  for (const group of candidateGroups(records, maxDistance)) {
+    for (let a = 0; a < group.length; a++) {
+      for (let b = a + 1; b < group.length; b++) {
+        const [i, j] = [group[a], group[b]];
+        if (find(i) === find(j)) continue; // Joined already, e.g. by a band
+        if (halvesDistance(halves[i], halves[j]) <= maxDistance) {
+          parent[find(j)] = find(i);
+        }
+      }
+    }
+  }
+
+  const clusters = new Map<number, IHashRecord[]>();
+  records.forEach((record, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), record]);
+  });
+  return [...clusters.values()]
+    .filter((cluster) => cluster.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * One line about the stickers of a task repeating earlier ones, numbered from
+ * 1 in delivery order, e.g.
+ * `⚠️ Seen before: crops 1, 2 (task_abc), 7 (crop 3)`.
+ */
+export function summarizeDuplicates(
+  matches: IDuplicateMatch[],
+  taskId: string,
+  skipped = false
+): string | undefined {
+  if (!matches.length) return undefined;
+  // Repeats of one earlier task are listed together
+  const bySource = new Map<string, number[]>();
+  for (const { index, of } of matches) {
+    // Another crop of this task, or the very sticker when sent before
+    const source =
+      of.taskId === taskId && of.index !== index
+        ? `crop ${of.index + 1}`
+        : of.taskId;
+    bySource.set(source, [...(bySource.get(source) ?? []), index + 1]);
+  }
+  const parts = [...bySource].map(
+    ([source, crops]) => `${crops.join(", ")} (${source})`
+  );
+  return `⚠️ ${skipped ? "Skipped repeats" : "Seen before"}: crop${
+    matches.length > 1 ? "s" : ""
+  } ${parts.join(", ")}`;
+}
+
+/**
+ * Perceptual hashes of every delivered sticker, as an append-only JSONL file
+ * like the task journal. A sticker sent again (a retried task) replaces its
+ * earlier line when loaded.
+ */
+export class StickerHashStore {
+  private records = new Map<string, IHashRecord>();
+
+  async load(): Promise<void> {
+    this.records.clear();
+    let lines = 0;
+    try {
+      const file = await fs.readFile(HASHES_FILE_PATH, "utf8");
+      for (const line of file.split("\n")) {
+        if (!line.trim()) continue;
+        lines++;
+        try {
+          const record: IHashRecord = JSON.parse(line);
+          this.records.set(recordKey(record.taskId, record.index), record);
+        } catch {
+          // Most likely a line torn by a crash mid-write
+          console.warn(`Skipping unreadable line in ${HASHES_FILE_PATH}.`);
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read ${HASHES_FILE_PATH}, starting fresh. Error: ${error.message}`
+        );
+      }
+    }
+    // Stickers sent again left their earlier lines behind
+    if (lines > COMPACT_RATIO * Math.max(this.records.size, 1)) {
+      await this.compact();
+    }
+    console.log(`Loaded ${this.records.size} sticker hashes.`);
+  }
+
+  /**
+   * Drops the hashes of a task, for /resend: its stickers are sent again on
+   * purpose and must not count as repeats of themselves.
+   */
+  async forget(taskId: string): Promise<void> {
+    const before = this.records.size;
+    for (const [key, record] of this.records) {
+      if (record.taskId === taskId) this.records.delete(key);
+    }
+    if (this.records.size !== before) await this.compact();
+  }
+
+  async add(records: IHashRecord[]): Promise<void> {
+    if (!records.length) return;
+    await fs.appendFile(
+      HASHES_FILE_PATH,
+      records.map((record) => `${JSON.stringify(record)}\n`).join(""),
+      "utf8"
+    );
+    for (const record of records) {
+      this.records.set(recordKey(record.taskId, record.index), record);
+    }
+  }
+
+  /**
+   * Finds, for every hash of a task, the closest earlier sticker within
+   * `maxDistance`: one sent before, or an earlier crop of the same task such
+   * as another variant. Hashes are only recorded once a task was delivered,
+   * so a retry never matches itself but a task processed again does, unless
+   * it was resent (see forget).
+   */
+  findDuplicates(
+    taskId: string,
+    hashes: string[],
+    maxDistance: number
+  ): IDuplicateMatch[] {
+    const matches: IDuplicateMatch[] = [];
+    hashes.forEach((hash, index) => {
+      let best: IDuplicateMatch | undefined;
+      const consider = (
+        of: { taskId: string; index: number },
+        other: string
+      ) => {
+        const distance = hammingDistance(hash, other);
+        if (distance <= maxDistance && (!best || distance < best.distance)) {
+          best = { index, of, distance };
+        }
+      };
+      for (const record of this.records.values()) {
+        consider(record, record.hash);
+      }
+      for (let earlier = 0; earlier < index; earlier++) {
+        consider({ taskId, index: earlier }, hashes[earlier]);
+      }
+      if (best) matches.push(best);
+    });
+    return matches;
+  }
+
+  /** Rewrites the file with one line per sticker. */
+  private async compact(): Promise<void> {
+    const tmpPath = `${HASHES_FILE_PATH}.tmp`;
+    try {
+      await fs.writeFile(
+        tmpPath,
+        [...this.records.values()]
+          .map((record) => `${JSON.stringify(record)}\n`)
+          .join(""),
+        "utf8"
+      );
+      await fs.rename(tmpPath, HASHES_FILE_PATH);
+      console.log(
+        `Compacted ${HASHES_FILE_PATH} to ${this.records.size} lines.`
+      );
+    } catch (error) {
+      console.error(`Failed to compact ${HASHES_FILE_PATH}:`, error);
+    }
+  }
+
+  /** The duplicate clusters across the whole history, for /duplicates. */
+  describeClusters(maxDistance: number): string {
+    const clusters = findDuplicateClusters(
+      [...this.records.values()],
+      maxDistance
+    );
+    if (!clusters.length) {
+      return `No duplicates among ${this.records.size} stickers (distance ≤ ${maxDistance}).`;
+    }
+    const lines = clusters.slice(0, MAX_LISTED_CLUSTERS).map((cluster, n) => {
+      const listed = cluster
+        .slice(0, MAX_LISTED_STICKERS)
+        .map((record) => `${record.taskId} #${record.index + 1}`);
+      if (cluster.length > MAX_LISTED_STICKERS) listed.push("...");
+      return `${n + 1}. ${cluster.length} stickers: ${listed.join(", ")}`;
+    });
+    if (clusters.length > MAX_LISTED_CLUSTERS) {
+      lines.push(`...and ${clusters.length - MAX_LISTED_CLUSTERS} more.`);
+    }
+    return [
+      `${clusters.length} duplicate clusters among ${this.records.size} stickers (distance ≤ ${maxDistance}):`,
+      ...lines,
+    ].join("\n");
+  }
+}
@@ -0,0 +1,169 @@
+import { watch, FSWatcher } from "fs";
+import fs from "fs/promises";
+import path from "path";
+import { TaskStatus, TaskType } from "./types";
+import { IGenerationSource, ITask, ITaskSink } from "./source";
+import { escapeHtml } from "./html";
+
+// --- Constants ---
+export const FOLDER_SOURCE_NAME = "folder";
+const IMAGE_EXTENSIONS = [".png", ".webp", ".jpg", ".jpeg"];
+const VIDEO_EXTENSIONS = [".mp4", ".mov", ".webm"];
+const SCAN_DEBOUNCE_MS = 500; // Copying a file fires several events
+// Files modified more recently may still be being written
+const SETTLE_MS = 2000;
+
+/**
+ * Turns the sheets and clips dropped into a folder into finished tasks. The
+ * file name is the task's prompt, so markers like `[grid 4x4]` in it apply.
+ * Each file is handed over once per run; the task store remembers what was
+ * delivered across restarts (it never drops folder tasks for their age), and
+ * a changed file counts as a new task.
+ */
+export class FolderSource implements IGenerationSource {
+  readonly name = FOLDER_SOURCE_NAME;
+  private sink?: ITaskSink;
+  private watcher?: FSWatcher;
+  private scanTimeoutId?: NodeJS.Timeout;
+  private readonly emitted = new Set<string>(); // Task ids handed over
+  private paused = false;
+  private isScanning = false;
+  private rescanPending = false; // Files changed while a scan was running
+  private lastScanError?: string;
+
+  constructor(private readonly dir: string) {}
+
+  async start(sink: ITaskSink): Promise<void> {
+    this.sink = sink;
+    try {
+      this.watcher = watch(this.dir, () => this.scheduleScan(SCAN_DEBOUNCE_MS));
+      this.watcher.on("error", (error) =>
+        console.error(`Watching ${this.dir} failed:`, error)
+      );
+    } catch (error) {
+      console.error(`Could not watch ${this.dir}:`, error);
+    }
+    console.log(`Watching ${this.dir} for stickers and videos.`);
+    await this.scan();
+  }
+
+  stop(): void {
+    if (this.scanTimeoutId) clearTimeout(this.scanTimeoutId);
+    this.watcher?.close();
+  }
+
+  pause(): void {
+    this.paused = true;
+    if (this.scanTimeoutId) clearTimeout(this.scanTimeoutId);
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.scheduleScan(0);
+  }
+
+  async poll(): Promise<void> {
+    await this.scan();
+  }
+
+  async find(taskId: string): Promise<ITask | undefined> {
+    return (await this.listTasks()).find((task) => task.id === taskId);
+  }
+
+  getStatusLines(): string[] {
+    return [
+      `<b>Watched folder:</b> <code>${escapeHtml(this.dir)}</code>, ${
+        this.paused ? "paused" : `${this.emitted.size} files handed over`
+      }`,
+    ];
+  }
+
+  getHealthIssues(): string[] {
+    return this.lastScanError
+      ? [`Watched folder unreadable: ${this.lastScanError}`]
+      : [];
+  }
+
+  // --- Scanning ---
+
+  private scheduleScan(delayMs: number): void {
+    if (this.paused) return;
+    if (this.scanTimeoutId) clearTimeout(this.scanTimeoutId);
+    this.scanTimeoutId = setTimeout(() => this.scan(), delayMs);
+  }
+
+  /** Hands the files that appeared since the last scan to the sink. */
+  private async scan(): Promise<void> {
+    if (!this.sink) return;
+    if (this.isScanning) {
+      this.rescanPending = true;
+      return;
+    }
+    this.isScanning = true;
+    this.rescanPending = false;
+    try {
+      const tasks = await this.listTasks();
+      delete this.lastScanError;
+      const now = Date.now();
+
+      const fresh = tasks.filter((task) => !this.emitted.has(task.id));
+      const unsettled = fresh.filter(
+        (task) => now - (task.createdAt ?? 0) < SETTLE_MS
+      );
+      const ready = fresh.filter((task) => !unsettled.includes(task));
+      for (const task of ready) this.emitted.add(task.id);
+      if (ready.length) {
+        console.log(`Found ${ready.length} new files in ${this.dir}.`);
+        await this.sink.handleTasks({
+          source: this.name,
+          tasks: ready,
+          complete: true,
+        });
+      }
+      // Look again once the files still being written have settled
+      if (unsettled.length) this.scheduleScan(SETTLE_MS);
+    } catch (error: any) {
+      this.lastScanError = error.message ?? String(error);
+      console.error(`Failed to scan ${this.dir}:`, error);
+      this.sink.recordError(`Folder scan failed: ${this.lastScanError}`);
+    } finally {
+      this.isScanning = false;
+      // The running scan may have listed the folder before they arrived
+      if (this.rescanPending) this.scheduleScan(0);
+    }
+  }
+
+  /** Every image and video in the folder as a finished task, oldest first. */
+  private async listTasks(): Promise<ITask[]> {
+    const tasks: ITask[] = [];
+    for (const entry of await fs.readdir(this.dir, { withFileTypes: true })) {
+      const extension = path.extname(entry.name).toLowerCase();
+      const type = IMAGE_EXTENSIONS.includes(extension)
+        ? TaskType.imageGen
+        : VIDEO_EXTENSIONS.includes(extension)
+        ? TaskType.videoGen
+        : undefined;
+      if (!entry.isFile() || !type) continue;
+
+      const fullPath = path.join(this.dir, entry.name);
+      // Removed since the listing
+      const stats = await fs.stat(fullPath).catch(() => undefined);
+      if (!stats) continue;
+      const id = `${FOLDER_SOURCE_NAME}:${entry.name}:${Math.round(
+        stats.mtimeMs
+      )}`;
+      tasks.push({
+        id,
+        source: this.name,
+        status: TaskStatus.succeeded,
+        type,
+        title: path.basename(entry.name, extension),
+        prompt: entry.name,
+        createdAt: stats.mtimeMs,
+        outputs: [{ id, url: fullPath }],
+      });
+    }
+    return tasks.sort((a, b) => a.createdAt! - b.createdAt!);
+  }
+}
@@ -0,0 +1,108 @@
+import * as cv from "opencv4nodejs";
+
+// cv.REDUCE_MAX, missing from the opencv4nodejs typings
+const REDUCE_MAX = 2;
+// A gutter must span at least this share of the sheet to split two cells
+const MIN_GUTTER_RATIO = 0.01;
+// Bands thinner than this share of the sheet are specks, not stickers
+const MIN_BAND_RATIO = 0.03;
+const MAX_GRID_SIDE = 12;
+
+export interface IGridLayout {
+  rows: number;
+  cols: number;
+  // Cell boundaries in px from 0 to the sheet side, in the middle of every
+  // gutter; only set for detected layouts, forced ones are cut uniformly
+  rowEdges?: number[];
+  colEdges?: number[];
+}
+
+export function formatGridLayout(layout: IGridLayout): string {
+  return `${layout.rows}x${layout.cols}`;
+}
+
+/**
+ * Parses a layout written as `4x4`, `2x3`, `2×3` or a single side like `3`.
+ * @returns undefined when the text is not a sensible layout.
+ */
+export function parseGridLayout(
+  text: string | undefined
+): IGridLayout | undefined {
+  const match = text?.trim().match(/^(\d+)(?:\s*[x×*]\s*(\d+))?$/i);
+  if (!match) return undefined;
+  const rows = Number(match[1]);
+  const cols = Number(match[2] ?? match[1]);
+  const valid = (n: number) => n >= 1 && n <= MAX_GRID_SIDE;
+  return valid(rows) && valid(cols) ? { rows, cols } : undefined;
+}
+
+/**
+ * Finds the occupied bands of a projection profile. Runs separated by gaps
+ * narrower than `minGap` belong to the same band, so a subject with a small
+ * hole or a detached accessory is not split in two.
+ */
+function findBands(profile: number[], minGap: number, minBand: number) {
+  const bands: [number, number][] = [];
+  profile.forEach((value, i) => {
+    if (!value) return;
+    const last = bands[bands.length - 1];
+    if (last && i - last[1] <= minGap) last[1] = i;
+    else bands.push([i, i]);
+  });
+  return bands.filter(([start, end]) => end - start + 1 >= minBand);
+}
+
+/**
+ * Cell boundaries for the bands of a profile: the outer ones are the sheet
+ * edges, the inner ones lie halfway across the gutter between two bands.
+ */
+function bandEdges(bands: [number, number][], length: number): number[] {
+  const inner = bands
+    .slice(1)
+    .map(([start], i) => Math.round((bands[i][1] + 1 + start) / 2));
+  return [0, ...inner, length];
+}
+
+/** Uniform cell boundaries, for layouts without detected gutters. */
+export function uniformEdges(count: number, length: number): number[] {
+  return Array.from({ length: count + 1 }, (_, i) =>
+    Math.round((i * length) / count)
+  );
+}
+
+/**
+ * Detects the grid of a sticker sheet from the empty gutter rows and columns
+ * of its binary alpha mask, along with where the gutters are: cells of a
+ * hand-made sheet are rarely all the same size.
+ * @returns undefined when no gutters could be found (e.g. a single subject
+ * spanning the whole sheet).
+ */
+export function detectGridLayout(mask: cv.Mat): IGridLayout | undefined {
+  const colProfile = mask.reduce(0, REDUCE_MAX).getDataAsArray()[0];
+  const rowProfile = mask
+    .reduce(1, REDUCE_MAX)
+    .getDataAsArray()
+    .map((row) => row[0]);
+
+  const colBands = findBands(
+    colProfile,
+    Math.max(2, Math.round(mask.cols * MIN_GUTTER_RATIO)),
+    Math.round(mask.cols * MIN_BAND_RATIO)
+  );
+  const rowBands = findBands(
+    rowProfile,
+    Math.max(2, Math.round(mask.rows * MIN_GUTTER_RATIO)),
+    Math.round(mask.rows * MIN_BAND_RATIO)
+  );
+  const rows = rowBands.length;
+  const cols = colBands.length;
+  if (!rows || !cols || rows > MAX_GRID_SIDE || cols > MAX_GRID_SIDE) {
+    return undefined;
+  }
+  return {
+    rows,
+    cols,
+    rowEdges: bandEdges(rowBands, mask.rows),
+    colEdges: bandEdges(colBands, mask.cols),
+  };
+}
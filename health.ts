@@ -0,0 +1,49 @@
+import http from "http";
+
+// --- Interfaces ---
+export interface IHealthReport {
+  healthy: boolean;
+  reasons: string[]; // Why the bot is unhealthy, empty when healthy
+  paused: boolean;
+}
+
+export interface IHealthSource {
+  getHealth(): IHealthReport;
+  getMetrics(): string;
+}
+
+/**
+ * Serves `/healthz` (200 when healthy, 503 otherwise, with a JSON report)
+ * and `/metrics` in the Prometheus text format.
+ */
+export function startHealthServer(
+  port: number,
+  source: IHealthSource
+): http.Server {
+  const server = http.createServer((req, res) => {
+    const pathname = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (req.method !== "GET") {
+      res.writeHead(405).end();
+    } else if (pathname === "/healthz") {
+      const report = source.getHealth();
+      res
+        .writeHead(report.healthy ? 200 : 503, {
+          "Content-Type": "application/json",
+        })
+        .end(JSON.stringify(report));
+    } else if (pathname === "/metrics") {
+      res
+        .writeHead(200, { "Content-Type": "text/plain; version=0.0.4" })
+        .end(source.getMetrics());
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  server.on("error", (error) =>
+    console.error(`Health server on port ${port} failed:`, error)
+  );
+  server.listen(port, () =>
+    console.log(`Health and metrics server listening on port ${port}.`)
+  );
+  return server;
+}
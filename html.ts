@@ -0,0 +1,11 @@
+/**
+ * HTML escaping for text inside HTML-formatted messages. Quotes are escaped
+ * too, so the result is also safe inside an attribute such as `href`.
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
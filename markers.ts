@@ -0,0 +1,14 @@
+/**
+ * Reads an inline `[key value]` marker from a task prompt, e.g. `[pack cats]`.
+ * Markers let a single prompt carry per-task settings without a separate config.
+ * @returns The trimmed marker value, or undefined when the marker is absent.
+ */
+export function getPromptMarker(
+  prompt: unknown,
+  key: string
+): string | undefined {
+  if (typeof prompt !== "string") return undefined;
+  const match = prompt.match(new RegExp(`\\[${key}\\s+([^\\]]+)\\]`, "i"));
+  const value = match?.[1].trim();
+  return value || undefined;
+}
@@ -0,0 +1,57 @@
+import { TelegramError } from "telegraf";
+import { IRendition } from "./source";
+
+// --- Constants ---
+export const MEDIA_GROUP_LIMIT = 10;
+// Telegram fetches files by URL up to 20 MB, bots can upload up to 50 MB
+export const URL_SEND_LIMIT_BYTES = 20 * 1024 * 1024;
+export const UPLOAD_LIMIT_BYTES = 50 * 1024 * 1024;
+export const THUMBNAIL_LIMIT_BYTES = 200 * 1024;
+
+/**
+ * Splits items into groups of at most `limit`, as evenly as possible so the
+ * last group isn't left with a single item: 11 videos go out as 6 + 5.
+ */
+export function splitIntoGroups<T>(
+  items: T[],
+  limit = MEDIA_GROUP_LIMIT
+): T[][] {
+  const count = Math.ceil(items.length / limit);
+  const groups: T[][] = [];
+  let start = 0;
+  for (let idx = 0; idx < count; idx++) {
+    const size = Math.ceil((items.length - start) / (count - idx));
+    groups.push(items.slice(start, start + size));
+    start += size;
+  }
+  return groups;
+}
+
+/** Whether a rendition is within `maxBytes`; unknown sizes are given a try. */
+export function fitsLimit(rendition: IRendition, maxBytes: number): boolean {
+  return rendition.size == null || rendition.size <= maxBytes;
+}
+
+/** Dimensions and duration for an InputMediaVideo, when known. */
+export function getVideoMetadata(rendition: IRendition): {
+  width?: number;
+  height?: number;
+  duration?: number;
+  supports_streaming: boolean;
+} {
+  return {
+    width: rendition.width && Math.round(rendition.width),
+    height: rendition.height && Math.round(rendition.height),
+    duration:
+      rendition.durationSecs && Math.max(1, Math.round(rendition.durationSecs)),
+    supports_streaming: true,
+  };
+}
+
+/** Telegram could not download, or refused, a file given by URL. */
+export function isUrlFetchError(error: unknown): boolean {
+  return (
+    error instanceof TelegramError &&
+    /HTTP URL|web ?page|WEBPAGE_|too (big|large)/i.test(error.description)
+  );
+}
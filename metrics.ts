@@ -0,0 +1,144 @@
+// --- Constants ---
+const METRIC_PREFIX = "sticker_gpt_";
+// Seconds; cropping a sheet takes around a second, turnaround minutes to hours
+const CROP_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+const TURNAROUND_BUCKETS = [30, 60, 120, 300, 600, 1800, 3600, 7200, 21600];
+
+type Labels = Record<string, string>;
+
+/** Renders labels as `{a="1",b="2"}`, or nothing without labels. */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value
+        .replace(/\\/g, "\\\\")
+        .replace(/"/g, '\\"')
+        .replace(/\n/g, "\\n")}"`
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort());
+}
+
+// --- Metric Types ---
+
+export class Counter {
+  private readonly values = new Map<
+    string,
+    { labels: Labels; value: number }
+  >();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += amount;
+    this.values.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...(this.values.size
+        ? [...this.values.values()].map(
+            ({ labels, value }) =>
+              `${this.name}${formatLabels(labels)} ${value}`
+          )
+        : [`${this.name} 0`]), // Nothing counted yet
+    ];
+  }
+}
+
+export class Histogram {
+  private readonly counts: number[]; // Per bucket, not cumulative
+  private sum = 0;
+  private count = 0;
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly buckets: number[]
+  ) {
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    const idx = this.buckets.findIndex((bound) => value <= bound);
+    if (idx !== -1) this.counts[idx]++;
+    this.sum += value;
+    this.count++;
+  }
+
+  render(): string[] {
+    let cumulative = 0;
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} histogram`,
+      ...this.buckets.map((bound, idx) => {
+        cumulative += this.counts[idx];
+        return `${this.name}_bucket{le="${bound}"} ${cumulative}`;
+      }),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+// --- Bot Metrics ---
+
+/** Everything exported on /metrics, in the Prometheus text format. */
+export class BotMetrics {
+  readonly fetches = new Counter(
+    `${METRIC_PREFIX}fetches_total`,
+    "Requests made to the Sora notif API."
+  );
+  readonly apiErrors = new Counter(
+    `${METRIC_PREFIX}api_errors_total`,
+    "Failed Sora notif API requests by HTTP status, or network/invalid."
+  );
+  readonly tasksProcessed = new Counter(
+    `${METRIC_PREFIX}tasks_processed_total`,
+    "Finished tasks handled, by task type and result."
+  );
+  readonly stickersSent = new Counter(
+    `${METRIC_PREFIX}stickers_sent_total`,
+    "Stickers delivered to the chat or added to a sticker set."
+  );
+  readonly rateLimitRetries = new Counter(
+    `${METRIC_PREFIX}telegram_rate_limit_retries_total`,
+    "Telegram requests repeated after a 429 answer."
+  );
+  readonly cropFailures = new Counter(
+    `${METRIC_PREFIX}crop_failures_total`,
+    "Generations that could not be cut into stickers."
+  );
+  readonly cropSeconds = new Histogram(
+    `${METRIC_PREFIX}crop_duration_seconds`,
+    "Time to download and cut one sticker sheet.",
+    CROP_BUCKETS
+  );
+  readonly turnaroundSeconds = new Histogram(
+    `${METRIC_PREFIX}task_turnaround_seconds`,
+    "Time from task creation at its source to its delivery.",
+    TURNAROUND_BUCKETS
+  );
+
+  render(): string {
+    const metrics = [
+      this.fetches,
+      this.apiErrors,
+      this.tasksProcessed,
+      this.stickersSent,
+      this.rateLimitRetries,
+      this.cropFailures,
+      this.cropSeconds,
+      this.turnaroundSeconds,
+    ];
+    return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+  }
+}
@@ -1,33 +1,131 @@
 import "dotenv/config";
 import { Telegraf, Input, TelegramError } from "telegraf";
+import type { InputMediaVideo } from "telegraf/types";
 import fs from "fs/promises";
+import http from "http";
 import path from "path";
 import { type } from "os";
+import { IGeneration, TaskStatus, TaskType } from "./types";
+import { cropFeatheredStickers, INormalizeOptions, IStickerImage } from "./cv";
 import {
-  IGeneration,
-  IPayload,
-  IResponse,
-  TaskStatus,
-  TaskType,
-} from "./types";
-import { cropFeatheredStickers } from "./cv";
-import headers from "./headers.json";
+  MAX_INITIAL_STICKERS,
+  MAX_STICKERS_PER_SET,
+  IStickerSetRecord,
+  StickerSetRegistry,
+  buildStickerSetName,
+  buildStickerSetTitle,
+  getPackTarget,
+  getStickerSetLink,
+  StickerFormat,
+} from "./stickerSet";
+import { convertToVideoSticker, VideoStickerError } from "./video";
+import { formatGridLayout, IGridLayout, parseGridLayout } from "./grid";
+import { getPromptMarker } from "./markers";
+import { IStickerStyle, parseStickerStyle } from "./style";
+import { parseSliceMode, SliceMode } from "./segment";
+import {
+  DedupMode,
+  DEFAULT_DEDUP_DISTANCE,
+  parseDedupDistance,
+  parseDedupMode,
+  StickerHashStore,
+  summarizeDuplicates,
+} from "./dedup";
+import {
+  CropCheckMode,
+  DEFAULT_MIN_CROP_SCORE,
+  ICropReport,
+  parseCropCheckMode,
+  parseMinCropScore,
+  summarizeCropQuality,
+} from "./quality";
+import {
+  IBotController,
+  MAX_FEATHER_PX,
+  parseFeatherPx,
+  registerCommands,
+} from "./commands";
+import {
+  buildContactSheet,
+  buildReviewKeyboard,
+  createReviewId,
+  getNextReviewLayout,
+  IReview,
+  registerReviewActions,
+  ReviewAction,
+  ReviewDecision,
+  ReviewStore,
+} from "./review";
+import {
+  BACKGROUND_STRATEGIES,
+  IBackgroundOptions,
+  parseBackgroundTolerance,
+  parseKeyColor,
+} from "./background";
+import { TaskStore } from "./taskStore";
+import { describeTaskOutcome, getUnsafeNote, isModerated } from "./outcome";
+import {
+  formatQueuedProgress,
+  formatRunningProgress,
+  IProgressSample,
+  recordProgress,
+} from "./progress";
+import { BotMetrics } from "./metrics";
+import { IHealthReport, IHealthSource, startHealthServer } from "./health";
+import {
+  IGenerationSource,
+  IRendition,
+  isActiveStatus,
+  getOutputExtension,
+  isRemoteUrl,
+  ITask,
+  ITaskBatch,
+  ITaskOutput,
+  ITaskSink,
+  readOutput,
+} from "./source";
+import { SoraSource, SORA_SOURCE_NAME } from "./soraSource";
+import { FolderSource, FOLDER_SOURCE_NAME } from "./folderSource";
+import { escapeHtml } from "./html";
+import {
+  fitsLimit,
+  getVideoMetadata,
+  isUrlFetchError,
+  splitIntoGroups,
+  THUMBNAIL_LIMIT_BYTES,
+  UPLOAD_LIMIT_BYTES,
+  URL_SEND_LIMIT_BYTES,
+} from "./media";
+import { createArchiveBackend, IArchiveSheet, TaskArchive } from "./archive";
+import { CAPTION_LIMIT, renderTaskTemplate } from "./caption";
 
 // --- Constants ---
-const LAST_ID_FILE_PATH = path.join(__dirname, "last.json"); // Use __dirname for robustness
-const API_BASE_URL = "https://sora.chatgpt.com/backend/notif";
-const FETCH_LIMIT = 100;
-const MIN_FETCH_INTERVAL_SECONDS = 5;
-const DEFAULT_INTERVALS = {
-  QUEUED: 15,
-  RUNNING: 10,
-  RECENT_GENERATION: 25, // < 2 mins
-  MEDIUM_TERM_GENERATION: 50, // < 5 mins
-  LONG_TERM_GENERATION: 120, // < 30 mins
-  IDLE: 600, // > 30 mins
-};
+const DEFAULT_FEATHER_PX = 10;
+const RECENT_TASKS_LIMIT = 200; // Tasks remembered for /resend
+const DEFAULT_STICKER_EMOJI = "✨";
+const STICKER_MAX_BYTES = 64 * 1024; // Static sticker budget
+const MAX_NAME_ATTEMPTS = 10;
+
+const DEFAULT_REVIEW_TIMEOUT_MINUTES = 60;
+const REVIEW_EXPIRY_CHECK_MS = 60 * 1000;
 
 // --- Interfaces ---
+interface ICroppedTask {
+  stickers: IStickerImage[];
+  details: string; // Grid and background summary shown in the chat
+  held: Set<number>; // Crops kept back: bad ones on "hold", repeats on "skip"
+  hashes: string[]; // Perceptual hash of every crop
+  sheets: IArchiveSheet[]; // Originals with their crops, for the archive
+}
+
+interface ITaskProgress {
+  task: ITask; // Latest state of the task
+  progress?: number; // Last percentage shown
+  history: IProgressSample[]; // Progress over time, for the ETA
+  text?: string; // Last text shown
+  messageId?: number;
+}
+
 interface IGetMessageOptions {
   linkUrl?: string;
   linkText?: string;
@@ -35,280 +133,522 @@ interface IGetMessageOptions {
 }
 
 // --- Notificator Class ---
-class Notificator {
+class Notificator implements IBotController, IHealthSource, ITaskSink {
   private bot: Telegraf;
-  private lastId?: string;
-  private lastGenerationTime?: number;
-  private status?: TaskStatus;
-  private progress?: number;
-  private progressMessageId?: number;
-  private isFetching = false;
-  private fetchTimeoutId?: NodeJS.Timeout;
+  private paused = false;
+  private lastError?: { message: string; at: number };
+  private batchQueue = Promise.resolve(); // Batches are handled one at a time
+  private readonly metrics = new BotMetrics();
+  private readonly healthPort?: number;
+  private healthServer?: http.Server;
+  private featherPx: number;
+  private readonly recentTasks = new Map<string, ITask>();
+  private readonly activeTasks = new Map<string, ITaskProgress>(); // Queued or running
   private readonly chatId: string;
+  private readonly ownerId?: number;
+  private readonly stickerSetOwnerId?: number;
+  private readonly stickerEmoji: string;
+  private readonly normalizeOptions: INormalizeOptions;
+  private readonly videoStickers: boolean;
+  private readonly messageTemplate?: string;
+  private readonly sendOriginals: boolean;
+  private readonly gridLayout?: IGridLayout;
+  private readonly sliceMode: SliceMode;
+  private readonly backgroundOptions: IBackgroundOptions;
+  private readonly stickerStyle?: IStickerStyle;
+  private readonly cropCheck: CropCheckMode;
+  private readonly minCropScore: number;
+  private readonly dedupMode: DedupMode;
+  private readonly dedupDistance: number;
+  private readonly stickerHashes = new StickerHashStore();
+  private readonly stickerSets = new StickerSetRegistry();
+  private readonly tasks = new TaskStore();
+  private readonly sources: IGenerationSource[];
+  private sora?: SoraSource; // Also listed in sources, for /headers
+  private readonly reviewMode: boolean;
+  private readonly reviewTimeoutMs: number;
+  private readonly reviewDefault: ReviewDecision;
+  private readonly reviews = new ReviewStore();
+  private readonly reviewCrops = new Map<string, ICroppedTask>(); // Cache until restart
+  private readonly finishingReviews = new Set<string>();
+  private readonly archive?: TaskArchive;
+  private botUsername?: string;
 
   constructor() {
     const botToken = process.env.BOT_TOKEN;
     this.chatId = process.env.CHAT_ID!; // Already validated
+    // Optional: when set, stickers are published into sets owned by this user
+    this.stickerSetOwnerId = process.env.STICKER_SET_OWNER_ID
+      ? Number(process.env.STICKER_SET_OWNER_ID)
+      : undefined;
+    this.stickerEmoji = process.env.STICKER_EMOJI || DEFAULT_STICKER_EMOJI;
+    this.normalizeOptions = {
+      margin: Number(process.env.STICKER_MARGIN) || 0,
+      maxBytes: STICKER_MAX_BYTES,
+    };
+    this.videoStickers = process.env.VIDEO_STICKERS === "true";
+    // Optional: a header message per task, and the uncropped sheets
+    this.messageTemplate = process.env.MESSAGE_TEMPLATE || undefined;
+    this.sendOriginals = process.env.SEND_ORIGINALS === "true";
+    // Optional: force a layout for every sheet instead of detecting it
+    this.gridLayout = parseGridLayout(process.env.STICKER_GRID);
+    // Optional: find stickers without a grid, for irregular sheets
+    this.sliceMode = parseSliceMode(process.env.SLICE_MODE) ?? "grid";
+    this.backgroundOptions = this.readBackgroundOptions();
+    this.stickerStyle = parseStickerStyle(process.env.STICKER_STYLE);
+    this.featherPx =
+      parseFeatherPx(process.env.STICKER_FEATHER) ?? DEFAULT_FEATHER_PX;
+    if (
+      process.env.STICKER_FEATHER &&
+      parseFeatherPx(process.env.STICKER_FEATHER) === undefined
+    ) {
+      console.warn(
+        `Invalid STICKER_FEATHER "${process.env.STICKER_FEATHER}", expected 0-${MAX_FEATHER_PX}, using ${DEFAULT_FEATHER_PX}.`
+      );
+    }
+    // Crops scoring below CROP_MIN_SCORE are pointed out, or kept back
+    this.cropCheck = parseCropCheckMode(process.env.CROP_CHECK) ?? "warn";
+    if (process.env.CROP_CHECK && !parseCropCheckMode(process.env.CROP_CHECK)) {
+      console.warn(
+        `Unknown CROP_CHECK "${process.env.CROP_CHECK}", using warn.`
+      );
+    }
+    this.minCropScore =
+      parseMinCropScore(process.env.CROP_MIN_SCORE) ?? DEFAULT_MIN_CROP_SCORE;
+    if (
+      process.env.CROP_MIN_SCORE &&
+      parseMinCropScore(process.env.CROP_MIN_SCORE) === undefined
+    ) {
+      console.warn(
+        `Invalid CROP_MIN_SCORE "${process.env.CROP_MIN_SCORE}", expected 0-1, using ${DEFAULT_MIN_CROP_SCORE}.`
+      );
+    }
+    // Stickers looking like ones sent before are pointed out, or skipped
+    this.dedupMode = parseDedupMode(process.env.DEDUP_MODE) ?? "flag";
+    if (process.env.DEDUP_MODE && !parseDedupMode(process.env.DEDUP_MODE)) {
+      console.warn(
+        `Unknown DEDUP_MODE "${process.env.DEDUP_MODE}", using flag.`
+      );
+    }
+    this.dedupDistance =
+      parseDedupDistance(process.env.DEDUP_DISTANCE) ?? DEFAULT_DEDUP_DISTANCE;
+    if (
+      process.env.DEDUP_DISTANCE &&
+      parseDedupDistance(process.env.DEDUP_DISTANCE) === undefined
+    ) {
+      console.warn(
+        `Invalid DEDUP_DISTANCE "${process.env.DEDUP_DISTANCE}", expected 0-64, using ${DEFAULT_DEDUP_DISTANCE}.`
+      );
+    }
+    // Optional: the only user allowed to control the bot through commands
+    const ownerId = process.env.OWNER_ID || process.env.STICKER_SET_OWNER_ID;
+    this.ownerId = ownerId ? Number(ownerId) : undefined;
+    // Review needs the owner's button presses, so it requires OWNER_ID
+    this.reviewMode = process.env.REVIEW_MODE === "true" && !!this.ownerId;
+    if (process.env.REVIEW_MODE === "true" && !this.ownerId) {
+      console.warn("REVIEW_MODE requires OWNER_ID, sending stickers directly.");
+    }
+    this.reviewTimeoutMs =
+      (Number(process.env.REVIEW_TIMEOUT_MINUTES) ||
+        DEFAULT_REVIEW_TIMEOUT_MINUTES) *
+      60 *
+      1000;
+    this.reviewDefault =
+      process.env.REVIEW_DEFAULT === "discard" ? "discard" : "approve";
+    // Optional: serve /healthz and /metrics on this port
+    this.healthPort = Number(process.env.HEALTH_PORT) || undefined;
+    this.sources = this.createSources();
+    // Optional: keep originals and stickers in ARCHIVE_DIR or an S3 bucket
+    const archiveBackend = createArchiveBackend();
+    this.archive = archiveBackend && new TaskArchive(archiveBackend);
 
     if (!botToken) {
       console.error("BOT_TOKEN environment variable is missing!");
       process.exit(1);
     }
-    this.bot = new Telegraf(botToken);
+    this.bot = new Telegraf(botToken, {
+      // Optional: a local Bot API server, or the fake one used by the tests
+      telegram: process.env.TELEGRAM_API_ROOT
+        ? { apiRoot: process.env.TELEGRAM_API_ROOT }
+        : undefined,
+    });
 
     this.initialize();
   }
 
-  private async initialize(): Promise<void> {
-    await this.readLastId();
-    this.fetchAndProcessNotifications();
-    this.setupShutdownHandlers();
+  /** SOURCES lists where tasks come from, comma separated, `sora` by default. */
+  private createSources(): IGenerationSource[] {
+    const names = (process.env.SOURCES || SORA_SOURCE_NAME)
+      .split(",")
+      .map((name) => name.trim().toLowerCase())
+      .filter(Boolean);
+    const sources: IGenerationSource[] = [];
+    for (const name of new Set(names)) {
+      if (name === SORA_SOURCE_NAME) {
+        this.sora = new SoraSource(this.tasks, this.metrics, !!this.ownerId);
+        sources.push(this.sora);
+      } else if (name === FOLDER_SOURCE_NAME && process.env.WATCH_DIR) {
+        sources.push(new FolderSource(process.env.WATCH_DIR));
+      } else if (name === FOLDER_SOURCE_NAME) {
+        console.warn("The folder source needs WATCH_DIR, skipping it.");
+      } else {
+        console.warn(`Unknown source "${name}" in SOURCES, skipping it.`);
+      }
+    }
+    if (!sources.length) {
+      console.warn("No task sources configured, nothing will be delivered.");
+    }
+    return sources;
   }
 
-  // --- State Management ---
+  private readBackgroundOptions(): IBackgroundOptions {
+    const strategy = process.env.BACKGROUND_STRATEGY as
+      | IBackgroundOptions["strategy"]
+      | undefined;
+    if (strategy && !BACKGROUND_STRATEGIES.includes(strategy)) {
+      console.warn(
+        `Unknown BACKGROUND_STRATEGY "${strategy}", using the default.`
+      );
+    }
+    const tolerance = parseBackgroundTolerance(
+      process.env.BACKGROUND_TOLERANCE
+    );
+    if (process.env.BACKGROUND_TOLERANCE && tolerance === undefined) {
+      console.warn(
+        `Invalid BACKGROUND_TOLERANCE "${process.env.BACKGROUND_TOLERANCE}", expected 0-255, using the default.`
+      );
+    }
+    return {
+      strategy:
+        strategy && BACKGROUND_STRATEGIES.includes(strategy)
+          ? strategy
+          : undefined,
+      tolerance,
+      keyColor: parseKeyColor(process.env.BACKGROUND_KEY_COLOR),
+    };
+  }
 
-  private async readLastId(): Promise<void> {
-    try {
-      const file = await fs.readFile(LAST_ID_FILE_PATH, "utf8");
-      const data = JSON.parse(file);
-      this.lastId = typeof data === "string" ? data : undefined;
-      console.log(`Read lastId: ${this.lastId ?? "None"}`);
-    } catch (error: any) {
-      if (error.code === "ENOENT") {
-        console.log(`${LAST_ID_FILE_PATH} not found, starting fresh.`);
-      } else {
-        console.warn(
-          `Could not read or parse ${LAST_ID_FILE_PATH}, starting fresh. Error: ${error.message}`
+  private async initialize(): Promise<void> {
+    await this.tasks.load();
+    await this.stickerSets.load();
+    await this.reviews.load();
+    // A task whose review is gone (or no longer handled) would wait forever
+    for (const record of this.tasks.getByState("reviewing")) {
+      const review = this.reviewMode && this.reviews.findByTask(record.id);
+      if (!review && record.task) {
+        await this.tasks.markFailed(record.task, "Review was lost");
+      }
+    }
+    await this.stickerHashes.load();
+    if (this.archive) {
+      try {
+        await this.archive.load();
+        console.log(
+          `Archiving to ${this.archive.backend.describe()}, ${
+            this.archive.size
+          } tasks so far.`
+        );
+      } catch (error) {
+        console.error(
+          "Failed to load the archive index, retrying before the next task:",
+          error
         );
       }
-      this.lastId = undefined;
     }
+    this.setupCommands();
+    if (this.healthPort) {
+      this.healthServer = startHealthServer(this.healthPort, this);
+    }
+    for (const source of this.sources) {
+      await source.start(this);
+    }
+    this.setupShutdownHandlers();
   }
 
-  private async setLastId(id: string): Promise<void> {
-    if (id === this.lastId) return; // Avoid unnecessary writes
-    try {
-      await fs.writeFile(LAST_ID_FILE_PATH, JSON.stringify(id), "utf8");
-      this.lastId = id;
-      console.log(`Persisted new lastId: ${id}`);
-    } catch (error) {
-      console.error(`Failed to write ${LAST_ID_FILE_PATH}:`, error);
-      // Consider retry logic or alternative handling if persistence is critical
+  private setupCommands(): void {
+    if (!this.ownerId) {
+      console.log("OWNER_ID not set, bot commands are disabled.");
+      return;
+    }
+    registerCommands(this.bot, this, this.ownerId);
+    if (this.reviewMode) {
+      registerReviewActions(this.bot, (id, action) =>
+        this.handleReviewAction(id, action)
+      );
+      setInterval(() => this.expireReviews(), REVIEW_EXPIRY_CHECK_MS).unref();
+      this.expireReviews(); // Reviews may have timed out while we were down
     }
+    // Not awaited: the promise only settles once the bot stops polling
+    this.bot
+      .launch()
+      .catch((error) => console.error("Failed to start bot commands:", error));
+    console.log(`Bot commands enabled for owner ${this.ownerId}.`);
   }
 
-  // --- Fetching Logic ---
+  // --- Commands ---
+
+  getStatusText(): string {
+    const lastError = this.lastError
+      ? `${escapeHtml(this.lastError.message)} (${new Date(
+          this.lastError.at
+        ).toISOString()})`
+      : "none";
+    return [
+      `<b>Polling:</b> ${this.paused ? "paused" : "active"}`,
+      `<b>Sources:</b> ${
+        this.sources.map((source) => source.name).join(", ") || "none"
+      }`,
+      `<b>Tasks:</b> ${this.getActiveSummary()}`,
+      ...this.sources.flatMap((source) => source.getStatusLines()),
+      `<b>Failed tasks:</b> ${this.tasks.countByState("failed")}`,
+      `<b>Feather:</b> ${this.featherPx}px`,
+      `<b>Last error:</b> ${lastError}`,
+    ].join("\n");
+  }
 
-  private scheduleNextFetch(): void {
-    if (this.fetchTimeoutId) {
-      clearTimeout(this.fetchTimeoutId); // Clear existing timeout
-    }
-    if (this.isFetching) return; // Don't schedule if already fetching
+  pause(): void {
+    this.paused = true;
+    for (const source of this.sources) source.pause();
+    console.log("Polling paused by owner.");
+  }
 
-    const intervalSeconds = this.getNextInterval();
-    console.log(`Scheduling next fetch in ${intervalSeconds} seconds.`);
-    this.fetchTimeoutId = setTimeout(
-      () => this.fetchAndProcessNotifications(),
-      intervalSeconds * 1000
-    );
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    console.log("Polling resumed by owner.");
+    for (const source of this.sources) source.resume();
   }
 
-  private getNextInterval(): number {
-    let interval: number;
+  async poll(): Promise<void> {
+    for (const source of this.sources) await source.poll();
+  }
 
-    switch (this.status) {
-      case TaskStatus.queued:
-        interval = DEFAULT_INTERVALS.QUEUED;
-        break;
-      case TaskStatus.running:
-        interval = DEFAULT_INTERVALS.RUNNING;
-        break;
-      default: // succeeded, failed, or undefined
-        interval = this.getIdleInterval();
+  /** Processes a task again, looking it up in its source if needed. */
+  async resend(taskId: string): Promise<string> {
+    let task = this.recentTasks.get(taskId);
+    for (const source of this.sources) {
+      if (task) break;
+      task = await source.find?.(taskId);
     }
-    // Optional: Add jitter
-    // interval += Math.random() * 2 - 1; // +/- 1 second
-    return Math.max(MIN_FETCH_INTERVAL_SECONDS, interval);
+    if (!task) return `Task ${taskId} not found in recent notifications.`;
+    if (task.status !== TaskStatus.succeeded) {
+      return `Task ${taskId} is ${task.status}, nothing to resend.`;
+    }
+    const found = task;
+    // Queued like a batch, so it can't run alongside one delivering the task
+    const success = await this.enqueue(async () => {
+      await this.tasks.reset(taskId); // Deliver everything again
+      await this.stickerHashes.forget(taskId); // Not repeats of themselves
+      return this.processTask(found);
+    });
+    return success
+      ? `Task ${taskId} processed again.`
+      : `Failed to process task ${taskId}, see /status.`;
   }
 
-  private getIdleInterval(): number {
-    const secondsSinceLastGen = this.lastGenerationTime
-      ? (Date.now() - this.lastGenerationTime) / 1000
-      : Infinity;
+  async updateHeaders(text: string): Promise<string> {
+    if (!this.sora) {
+      return "Sora is not among the SOURCES, no headers to update.";
+    }
+    return this.sora.updateHeaders(text);
+  }
 
-    if (secondsSinceLastGen < 120) return DEFAULT_INTERVALS.RECENT_GENERATION;
-    if (secondsSinceLastGen < 300)
-      return DEFAULT_INTERVALS.MEDIUM_TERM_GENERATION;
-    if (secondsSinceLastGen < 1800)
-      return DEFAULT_INTERVALS.LONG_TERM_GENERATION;
-    return DEFAULT_INTERVALS.IDLE;
+  setFeather(px: number): void {
+    this.featherPx = px;
+    console.log(`Feather radius set to ${px}px by owner.`);
   }
 
-  private async fetchAndProcessNotifications(): Promise<void> {
-    if (this.isFetching) {
-      console.log("Fetch already in progress, skipping.");
-      return;
-    }
-    this.isFetching = true;
-    console.log(`Fetching notifications... (using lastId: ${this.lastId})`);
+  getDuplicatesText(): string {
+    return this.stickerHashes.describeClusters(this.dedupDistance);
+  }
 
-    try {
-      const response = await this.fetchNotifications();
-      if (!response) return; // Error handled in fetchNotifications
+  // --- Health ---
 
-      if (!this.isValidResponse(response)) {
-        console.warn("Received invalid response structure:", response);
-        return;
-      }
+  /** Unhealthy while any source reports a problem. */
+  getHealth(): IHealthReport {
+    const reasons = this.sources.flatMap((source) => source.getHealthIssues());
+    return { healthy: reasons.length === 0, reasons, paused: this.paused };
+  }
 
-      if (response.data.length === 0) {
-        console.log("No new notifications found.");
-        // Handle potential progress update even with no new *items*
-        // Check if the API's last_id matches our current one and has progress info
-        // This scenario seems less likely with the current API structure, but good to consider
-        // await this.handlePotentialProgressWithoutNewItems(response);
-        return;
-      }
+  getMetrics(): string {
+    return this.metrics.render();
+  }
 
-      console.log(
-        `Processing ${response.data.length} new notifications. API's last_id: ${response.last_id}`
-      );
-      await this.processNotifications(response);
+  // --- Task Sink ---
 
-      // Update status and handle progress based on the *absolute latest* item from the API
-      const absoluteLatestPayload = response.data[0]?.payload; // API returns newest first
-      if (absoluteLatestPayload) {
-        await this.handleProgressUpdate(absoluteLatestPayload);
-      } else {
-        // If somehow data exists but payload doesn't, clear progress
-        await this.clearProgressMessageIfNeeded(undefined);
-      }
-    } catch (error) {
-      console.error("Error during notification fetch/processing:", error);
-      // Consider more specific error handling (e.g., network vs. processing errors)
-    } finally {
-      this.isFetching = false;
-      this.scheduleNextFetch(); // Always schedule the next attempt
-    }
+  async handleTasks(batch: ITaskBatch): Promise<void> {
+    // Sources run side by side, two batches must not retry the same task
+    return this.enqueue(() => this.processBatch(batch));
   }
 
-  private async fetchNotifications(): Promise<IResponse | null> {
-    const params = new URLSearchParams({ limit: String(FETCH_LIMIT) });
-    if (this.lastId) {
-      params.append("before", this.lastId);
-    }
-
-    const apiUrl = `${API_BASE_URL}?${params.toString()}`;
-    console.log(`Requesting URL: ${apiUrl}`);
+  /** Runs `job` once every batch (or resend) queued before it is done. */
+  private enqueue<T>(job: () => Promise<T>): Promise<T> {
+    const run = this.batchQueue.then(job);
+    this.batchQueue = run.then(
+      () => undefined,
+      () => undefined
+    );
+    return run;
+  }
 
+  async notify(html: string, context: string): Promise<void> {
     try {
-      const req = await fetch(apiUrl, { headers });
-
-      if (!req.ok) {
-        const errorBody = await req
-          .text()
-          .catch(() => "Could not read error body");
-        console.error(
-          `API request failed: ${req.status} ${req.statusText}. URL: ${apiUrl}. Body: ${errorBody}`
-        );
-        return null; // Indicate failure
-      }
-
-      return (await req.json()) as IResponse;
-    } catch (networkError) {
-      console.error(`Network error fetching notifications: ${networkError}`);
-      return null; // Indicate failure
+      await this.sendWithRetry(
+        this.bot.telegram.sendMessage,
+        [this.chatId, html, { parse_mode: "HTML" }],
+        context
+      );
+    } catch (sendError) {
+      console.error(`Failed to send ${context}:`, sendError);
     }
   }
 
-  private isValidResponse(res: any): res is IResponse {
-    return (
-      res &&
-      typeof res === "object" &&
-      Array.isArray(res.data) &&
-      (typeof res.last_id === "string" || res.last_id === null) // Allow null last_id
-    );
+  recordError(message: string): void {
+    this.lastError = { message, at: Date.now() };
   }
 
   // --- Processing Logic ---
 
-  private async processNotifications(response: IResponse): Promise<void> {
-    // Process notifications in reverse order (oldest new first)
-    const notificationsToProcess = response.data.slice().reverse();
-    let latestSuccessfullyProcessedId = this.lastId; // Start with current
-
-    for (const item of notificationsToProcess) {
-      const payload = item.payload;
-      if (!payload) {
-        console.warn("Notification item missing payload:", item);
-        continue; // Skip this item
-      }
+  /**
+   * Processes a batch oldest first. A failing task no longer holds up the
+   * rest of the batch: it is recorded as failed and retried on its own.
+   */
+  private async processBatch(batch: ITaskBatch): Promise<void> {
+    for (const task of batch.tasks) this.rememberTask(task);
 
+    for (const task of batch.tasks) {
       console.log(
-        `Processing notification ID: ${payload.id}, Status: ${payload.status}`
+        `Processing ${batch.source} task ${task.id}, Status: ${task.status}`
       );
-
-      if (payload.status === TaskStatus.succeeded) {
-        const success = await this.handleSucceededTask(payload);
-        if (success) {
-          latestSuccessfullyProcessedId = payload.id;
-          this.lastGenerationTime = Date.now(); // Update time on successful processing
-          console.log(
-            `Successfully processed notification for ${payload.id}. Updated latestSuccessfullyProcessedId to ${latestSuccessfullyProcessedId}.`
-          );
-          // Clear progress after successful send
-          await this.clearProgressMessageIfNeeded(payload.status);
-        } else {
-          // If sending failed, stop processing this batch to avoid skipping
-          console.log(
-            `Stopping processing for this batch due to send error for ${payload.id}. lastId remains ${this.lastId}.`
-          );
-          return; // Exit processing loop
-        }
+      if (this.tasks.isDone(task.id)) {
+        console.log(`Task ${task.id} was already delivered or skipped.`);
+      } else if (this.tasks.isExhausted(task.id)) {
+        console.log(`Task ${task.id} failed too often, not retrying it.`);
+      } else if (this.tasks.isInReview(task.id)) {
+        console.log(`Task ${task.id} is waiting for its review.`);
+      } else if (!isActiveStatus(task.status, task.createdAt)) {
+        await this.processTask(task); // Succeeded, failed or cancelled
       } else {
         console.log(
-          `Task ${payload.id} status is ${payload.status}. Skipping send notification.`
+          `Task ${task.id} status is ${task.status}. Skipping send notification.`
         );
-        // We still might need to update progress based on this later
+        await this.tasks.markSeen(task);
       }
-    } // End of loop
+    }
 
-    // Persist the latest successfully processed ID *after* the loop
-    if (
-      latestSuccessfullyProcessedId &&
-      latestSuccessfullyProcessedId !== this.lastId
-    ) {
-      await this.setLastId(latestSuccessfullyProcessedId);
+    await this.retryFailedTasks(new Set(batch.tasks.map((task) => task.id)));
+    await this.updateProgress(batch);
+  }
+
+  /**
+   * Sends a finished task (or the report of why it failed) and records the
+   * outcome in the task store.
+   * @returns true once everything was delivered.
+   */
+  private async processTask(task: ITask): Promise<boolean> {
+    await this.tasks.markProcessing(task);
+    const success =
+      task.status === TaskStatus.succeeded
+        ? await this.handleSucceededTask(task)
+        : await this.handleUnsuccessfulTask(task);
+    if (success && this.tasks.isInReview(task.id)) {
+      // Delivered (or not) once the review is resolved, see finishReview
+      console.log(`Task ${task.id} is waiting for its review.`);
+      return success;
+    }
+    this.metrics.tasksProcessed.inc({
+      type: task.type,
+      result: success ? "delivered" : "failed",
+    });
+    if (success) {
+      await this.tasks.markDelivered(task.id);
+      this.recordTurnaround(task);
+      console.log(`Successfully processed notification for ${task.id}.`);
+    } else {
+      await this.tasks.markFailed(task, this.lastError?.message);
+      console.log(`Task ${task.id} failed, it will be retried later.`);
+    }
+    return success;
+  }
+
+  /**
+   * Retries failed tasks that have attempts left. Only stickers that were not
+   * delivered before are sent again.
+   * @param skip Tasks that were just handled in the current batch.
+   */
+  private async retryFailedTasks(skip = new Set<string>()) {
+    for (const record of this.tasks.getRetryable()) {
+      if (skip.has(record.id)) continue;
+      console.log(
+        `Retrying task ${record.id} (attempt ${record.attempts + 1}).`
+      );
+      await this.processTask(record.task!);
     }
   }
 
-  private async handleSucceededTask(payload: IPayload): Promise<boolean> {
+  private async handleSucceededTask(task: ITask): Promise<boolean> {
     console.log(
-      `Task ${payload.id} succeeded. Attempting to send notification...`
+      `Task ${task.id} succeeded. Attempting to send notification...`
     );
     try {
-      if (payload.type === TaskType.imageGen && payload.generations?.length) {
-        await this.sendStickers(payload.generations);
-      } else if (
-        payload.type === TaskType.videoGen &&
-        payload.generations?.length
-      ) {
-        await this.sendVideos(payload);
+      if (task.type === TaskType.imageGen && task.outputs.length) {
+        if (this.reviewMode) {
+          await this.startReview(task);
+        } else {
+          await this.sendStickers(task);
+        }
+      } else if (task.type === TaskType.videoGen && task.outputs.length) {
+        if (this.videoStickers) {
+          await this.sendVideoStickers(task);
+        } else {
+          await this.sendVideos(task);
+        }
+      } else if (isModerated(task) || getUnsafeNote(task)) {
+        // Everything was withheld, say so instead of staying silent
+        await this.reportTaskOutcome(task, describeTaskOutcome(task));
+        return true;
       } else {
         console.log(
-          `Task ${payload.id} succeeded but type is ${payload.type} or no generations found. Skipping send.`
+          `Task ${task.id} succeeded but type is ${task.type} or no outputs found. Skipping send.`
         );
       }
+
+      const unsafeNote = getUnsafeNote(task);
+      if (unsafeNote) await this.reportTaskOutcome(task, unsafeNote);
       return true; // Indicate success (or skipped appropriately)
     } catch (sendError) {
-      console.error(
-        `Failed to send notification for ${payload.id}:`,
-        sendError
-      );
+      console.error(`Failed to send notification for ${task.id}:`, sendError);
+      this.recordError(`Failed to send task ${task.id}: ${sendError}`);
       return false; // Indicate failure
     }
   }
 
+  /** Reports a failed or cancelled task with its reason. */
+  private async handleUnsuccessfulTask(task: ITask): Promise<boolean> {
+    const outcome = describeTaskOutcome(task);
+    console.log(`Task ${task.id} ${outcome}. Reporting to chat...`);
+    try {
+      await this.reportTaskOutcome(task, outcome);
+      return true;
+    } catch (sendError) {
+      console.error(`Failed to report task ${task.id}:`, sendError);
+      this.recordError(`Failed to report task ${task.id}: ${sendError}`);
+      return false;
+    }
+  }
+
+  private async reportTaskOutcome(task: ITask, outcome: string): Promise<void> {
+    await this.sendWithRetry(
+      this.bot.telegram.sendMessage,
+      [
+        this.chatId,
+        this.getMessage(task, { suffix: escapeHtml(outcome) }),
+        { parse_mode: "HTML" },
+      ],
+      `outcome report for task ${task.id}`
+    );
+  }
+
   // --- Sending Logic ---
 
   /**
@@ -341,6 +681,7 @@ class Notificator {
           const retryAfter = err.response.parameters.retry_after;
           const waitMs = (retryAfter + 1) * 1000; // Add 1 second buffer
           retries++;
+          this.metrics.rateLimitRetries.inc();
           console.warn(
             `Rate limit hit (429) sending ${context}. Retry ${retries}/${MAX_RETRIES} after ${
               waitMs / 1000
@@ -364,135 +705,996 @@ class Notificator {
     throw new Error(`Failed to send ${context} after exhausting retries.`);
   }
 
-  private async sendStickers(generations: IGeneration[]): Promise<void> {
-    for (const gen of generations) {
-      if (!gen.encodings?.source?.path) {
-        console.warn(
-          `Skipping sticker for generation ${gen.id}: Missing source path.`
-        );
-        continue;
-      }
+  private async sendStickers(task: ITask): Promise<void> {
+    const cropped = await this.cropTask(task);
+    if (!cropped) return;
+    const chosen = new Map(
+      cropped.stickers
+        .map((img, idx) => [idx, img.buffer] as const)
+        .filter(([idx]) => !cropped.held.has(idx))
+    );
+    if (!chosen.size) {
+      // Everything was held back, say so instead of staying silent
+      await this.sendWithRetry(
+        this.bot.telegram.sendMessage,
+        [
+          this.chatId,
+          this.getMessage(task, { suffix: cropped.details }),
+          { parse_mode: "HTML" },
+        ],
+        `held crops notice for task ${task.id}`
+      );
+      await this.archiveTask(task, cropped.sheets);
+      return;
+    }
+    await this.sendTaskHeader(task);
+    await this.deliverStickers(task, chosen, cropped.details);
+    await this.recordStickerHashes(task, cropped, [...chosen.keys()]);
+    await this.sendOriginalSheets(task, cropped.sheets);
+    await this.archiveTask(task, cropped.sheets);
+  }
 
-      let imageBuffers: Buffer[] | null = null;
+  /**
+   * Crops every generation of an image task. Overrides come from a review
+   * re-slice, everything else from the task's markers and settings.
+   * @returns null when no generation could be cropped.
+   */
+  private async cropTask(
+    task: ITask,
+    overrides: { featherPx?: number; layout?: IGridLayout } = {}
+  ): Promise<ICroppedTask | null> {
+    const stickers: IStickerImage[] = [];
+    const reports: ICropReport[] = [];
+    const hashes: string[] = [];
+    let emptyCells = 0;
+    const sheets: IArchiveSheet[] = [];
+    const layouts = new Set<string>();
+    const backgrounds = new Set<string>();
+    const forcedLayout = overrides.layout ?? this.getGridLayout(task);
+    // Picking a grid in a review switches a segmented task back to the grid
+    const mode = overrides.layout ? "grid" : this.getSliceMode(task);
+    const style = this.getStickerStyle(task);
+    for (const output of task.outputs) {
+      let images: IStickerImage[] | null = null;
+      let imageReports: ICropReport[];
+      let imageHashes: string[];
+      let original: Buffer;
+      let layout: string | undefined; // Only grids have one worth archiving
+      const cropStart = Date.now();
       try {
-        imageBuffers = await cropFeatheredStickers(gen.encodings.source.path);
+        const result = await cropFeatheredStickers(
+          output.url,
+          {
+            featherPx: overrides.featherPx ?? this.featherPx,
+            layout: forcedLayout,
+            mode,
+            background: this.backgroundOptions,
+            style,
+          },
+          this.normalizeOptions
+        );
+        images = result.stickers;
+        imageReports = result.reports;
+        imageHashes = result.hashes;
+        emptyCells += result.emptyCells;
+        original = result.original;
+        layout =
+          result.mode === "grid" ? formatGridLayout(result.layout) : undefined;
+        this.metrics.cropSeconds.observe((Date.now() - cropStart) / 1000);
+        const slicing =
+          result.mode === "segment"
+            ? `segmented into ${result.stickers.length}`
+            : `${formatGridLayout(result.layout)} grid`;
+        layouts.add(slicing);
+        backgrounds.add(result.background);
+        console.log(
+          `Gen ${output.id}: ${slicing}, ${result.background} background.`
+        );
       } catch (cropError) {
+        this.metrics.cropFailures.inc();
         console.error(
-          `Error cropping sticker for generation ${gen.id} from path ${gen.encodings.source.path}:`,
+          `Error cropping sticker for generation ${output.id} from ${output.url}:`,
           cropError
         );
         continue; // Skip this generation if cropping fails
       }
 
-      if (!imageBuffers || imageBuffers.length === 0) {
-        console.warn(
-          `No stickers generated from source path: ${gen.encodings.source.path}`
-        );
+      if (!images || images.length === 0) {
+        console.warn(`No stickers generated from source: ${output.url}`);
         continue;
       }
 
-      for (const source of imageBuffers) {
-        try {
-          await this.sendWithRetry(
-            this.bot.telegram.sendSticker,
-            [this.chatId, { source }],
-            `sticker for gen ${gen.id}`
-          );
-        } catch (sendError) {
-          console.error(
-            `Failed to send sticker for gen ${gen.id} after retries: ${sendError}`
+      for (const [idx, img] of images.entries()) {
+        if (img.bytes > STICKER_MAX_BYTES) {
+          console.warn(
+            `Sticker ${idx} for gen ${output.id} is ${img.bytes} bytes at quality ${img.quality}, over the ${STICKER_MAX_BYTES} byte budget.`
           );
-          // Decide if one failure should stop all stickers for this generation
-          // break; // Uncomment to stop processing stickers for the current generation on failure
         }
-      } // end for loop (stickers)
-    } // end for loop (generations)
-  }
-
-  private async sendVideos(payload: IPayload): Promise<void> {
-    const mediaGroup = (payload.generations ?? [])
-      .map((gen) => {
-        if (gen.url) {
-          return {
-            type: "video" as const,
-            media: {
-              url: gen.url,
-              filename: `${gen.title || payload.title || payload.id}.mp4`,
+      }
+      stickers.push(...images);
+      reports.push(...imageReports);
+      hashes.push(...imageHashes);
+      sheets.push({
+        output,
+        original,
+        layout,
+        stickers: images.map((img) => img.buffer),
+      });
+    } // end for loop (outputs)
+
+    if (!layouts.size) return null;
+    let details = `· ${[...layouts].join(", ")} · ${[...backgrounds].join(
+      ", "
+    )} background`;
+    const held = new Set<number>();
+    if (this.cropCheck !== "off") {
+      const quality = summarizeCropQuality(
+        reports,
+        emptyCells,
+        this.minCropScore,
+        this.cropCheck === "hold"
+      );
+      if (quality) details += `\n${quality}`;
+      if (this.cropCheck === "hold") {
+        reports.forEach((report, idx) => {
+          if (report.score < this.minCropScore) held.add(idx);
+        });
+      }
+    }
+    if (this.dedupMode !== "off") {
+      const duplicates = this.stickerHashes.findDuplicates(
+        task.id,
+        hashes,
+        this.dedupDistance
+      );
+      const note = summarizeDuplicates(
+        duplicates,
+        task.id,
+        this.dedupMode === "skip"
+      );
+      if (note) details += `\n${note}`;
+      if (this.dedupMode === "skip") {
+        for (const { index } of duplicates) held.add(index);
+      }
+    }
+    return { stickers, details, held, hashes, sheets };
+  }
+
+  /** Remembers the hashes of delivered stickers, to spot them again later. */
+  private async recordStickerHashes(
+    task: ITask,
+    cropped: ICroppedTask,
+    indices: number[]
+  ): Promise<void> {
+    const at = Date.now();
+    try {
+      await this.stickerHashes.add(
+        indices
+          .filter((index) => cropped.hashes[index])
+          .map((index) => ({
+            hash: cropped.hashes[index],
+            taskId: task.id,
+            index,
+            at,
+          }))
+      );
+    } catch (error) {
+      // Only dedup suffers, the stickers are out already
+      console.error(`Failed to record sticker hashes of ${task.id}:`, error);
+    }
+  }
+
+  /**
+   * Sends stickers one by one followed by a summary message, or publishes
+   * them into the task's sticker set when STICKER_SET_OWNER_ID is set.
+   * Stickers are keyed by their index in the task; indices already delivered
+   * are skipped, so a retried task never sends a sticker twice.
+   * @throws When any sticker failed, after trying all of them.
+   */
+  private async deliverStickers(
+    task: ITask,
+    stickers: Map<number, Buffer>,
+    details: string
+  ): Promise<void> {
+    if (stickers.size === 0) return;
+    if (this.stickerSetOwnerId) {
+      await this.publishStickerSet(task, stickers, "static", details);
+      return;
+    }
+
+    let failed = 0;
+    for (const [idx, source] of stickers.entries()) {
+      if (this.tasks.isStickerDelivered(task.id, idx)) continue;
+      try {
+        await this.sendWithRetry(
+          this.bot.telegram.sendSticker,
+          [this.chatId, { source }],
+          `sticker ${idx} for task ${task.id}`
+        );
+        await this.recordStickersSent(task.id, [idx]);
+      } catch (sendError) {
+        console.error(
+          `Failed to send sticker ${idx} for task ${task.id} after retries: ${sendError}`
+        );
+        failed++; // Keep going, the retry only resends what is missing
+      }
+    } // end for loop (stickers)
+    if (failed) {
+      throw new Error(`${failed} of ${stickers.size} stickers failed to send`);
+    }
+
+    await this.sendWithRetry(
+      this.bot.telegram.sendMessage,
+      [
+        this.chatId,
+        this.getMessage(task, { suffix: details }),
+        { parse_mode: "HTML" },
+      ],
+      `sticker summary for task ${task.id}`
+    );
+  }
+
+  /**
+   * Layout forced for a task: a `[grid 4x4]` prompt marker wins over the
+   * STICKER_GRID setting. Undefined means the layout is detected per sheet.
+   */
+  private getGridLayout(task: ITask): IGridLayout | undefined {
+    const marker = getPromptMarker(task.prompt, "grid");
+    const layout = parseGridLayout(marker);
+    if (marker && !layout) {
+      console.warn(`Ignoring invalid grid marker "${marker}" in ${task.id}`);
+    }
+    return layout ?? this.gridLayout;
+  }
+
+  /**
+   * Slicing mode for a task: a `[slice segment]` prompt marker wins over the
+   * SLICE_MODE setting.
+   */
+  private getSliceMode(task: ITask): SliceMode {
+    const marker = getPromptMarker(task.prompt, "slice");
+    const mode = parseSliceMode(marker);
+    if (marker && !mode) {
+      console.warn(`Ignoring invalid slice marker "${marker}" in ${task.id}`);
+    }
+    return mode ?? this.sliceMode;
+  }
+
+  /**
+   * Style for a task: a `[style diecut]` prompt marker wins over the
+   * STICKER_STYLE setting, `[style none]` turns styling off.
+   */
+  private getStickerStyle(task: ITask): IStickerStyle | undefined {
+    const marker = getPromptMarker(task.prompt, "style");
+    const style = parseStickerStyle(marker);
+    if (marker && !style) {
+      console.warn(`Ignoring invalid style marker "${marker}" in ${task.id}`);
+    }
+    return style ?? this.stickerStyle;
+  }
+
+  // --- Review ---
+
+  /** Posts a contact sheet of the task's crops for the owner to review. */
+  private async startReview(task: ITask): Promise<void> {
+    const review: IReview = {
+      id: createReviewId(),
+      task,
+      featherPx: this.featherPx,
+      count: 0,
+      selected: [],
+      expiresAt: Date.now() + this.reviewTimeoutMs,
+    };
+    const sheet = await this.sliceForReview(review);
+    if (!sheet) {
+      // Nothing to review, say so instead of dropping the task silently
+      console.warn(`No crops to review for task ${task.id}.`);
+      await this.reportTaskOutcome(task, "nothing could be cropped for review");
+      return;
+    }
+
+    const message = await this.sendWithRetry(
+      this.bot.telegram.sendPhoto,
+      [
+        this.chatId,
+        { source: sheet },
+        {
+          caption: this.getReviewCaption(review),
+          parse_mode: "HTML",
+          ...buildReviewKeyboard(review),
+        },
+      ],
+      `review for task ${task.id}`
+    );
+    review.messageId = message.message_id;
+    await this.reviews.set(review);
+    await this.tasks.markReviewing(task.id);
+    console.log(`Started review ${review.id} for task ${task.id}`);
+  }
+
+  /**
+   * Slices the task with the review's settings, selects every crop again and
+   * renders the contact sheet.
+   */
+  private async sliceForReview(review: IReview): Promise<Buffer | null> {
+    const cropped = await this.cropTask(review.task, {
+      featherPx: review.featherPx,
+      layout: review.layout,
+    });
+    if (!cropped?.stickers.length) return null;
+    const buffers = cropped.stickers.map((img) => img.buffer);
+    this.reviewCrops.set(review.id, cropped);
+    review.details = cropped.details;
+    review.count = buffers.length;
+    review.selected = buffers
+      .map((_, i) => i)
+      .filter((i) => !cropped.held.has(i));
+    return buildContactSheet(buffers);
+  }
+
+  private getReviewCaption(review: IReview): string {
+    return this.getMessage(review.task, {
+      suffix: `${review.details ?? ""} · feather ${
+        review.featherPx
+      }px\nPick the crops to keep, then approve.`,
+    });
+  }
+
+  private async handleReviewAction(
+    reviewId: string,
+    action: ReviewAction
+  ): Promise<string> {
+    const review = this.reviews.get(reviewId);
+    if (!review) return "This review is no longer pending.";
+
+    switch (action.type) {
+      case "toggle": {
+        const { index } = action;
+        if (!Number.isInteger(index) || index < 0 || index >= review.count) {
+          return "Unknown crop.";
+        }
+        const selected = review.selected.includes(index);
+        review.selected = selected
+          ? review.selected.filter((i) => i !== index)
+          : [...review.selected, index].sort((a, b) => a - b);
+        await this.reviews.set(review);
+        await this.bot.telegram.editMessageReplyMarkup(
+          this.chatId,
+          review.messageId,
+          undefined,
+          buildReviewKeyboard(review).reply_markup
+        );
+        return `Crop ${index + 1} ${selected ? "removed" : "selected"}.`;
+      }
+      case "feather":
+        review.featherPx = Math.max(0, review.featherPx + action.delta);
+        await this.resliceReview(review);
+        return `Re-sliced with a ${review.featherPx}px feather.`;
+      case "grid":
+        review.layout = getNextReviewLayout(review.layout);
+        await this.resliceReview(review);
+        return `Re-sliced with a ${
+          review.layout ? formatGridLayout(review.layout) : "detected"
+        } grid.`;
+      case "approve":
+      case "discard":
+        await this.finishReview(review, action.type);
+        return action.type === "approve" ? "Approved." : "Discarded.";
+    }
+  }
+
+  private async resliceReview(review: IReview): Promise<void> {
+    const sheet = await this.sliceForReview(review);
+    if (!sheet) {
+      console.warn(`Re-slicing review ${review.id} produced no crops.`);
+      return;
+    }
+    await this.reviews.set(review);
+    await this.bot.telegram.editMessageMedia(
+      this.chatId,
+      review.messageId,
+      undefined,
+      {
+        type: "photo",
+        media: { source: sheet },
+        caption: this.getReviewCaption(review),
+        parse_mode: "HTML",
+      },
+      buildReviewKeyboard(review)
+    );
+  }
+
+  /**
+   * Delivers the selected crops (or nothing on discard) and replaces the
+   * review keyboard with the outcome. The review stays open when sending
+   * fails, so approving again (or the next timeout) retries it.
+   */
+  private async finishReview(
+    review: IReview,
+    decision: ReviewDecision,
+    reason = ""
+  ): Promise<void> {
+    // A double tap while the stickers are being sent must not send them twice
+    if (this.finishingReviews.has(review.id)) return;
+    this.finishingReviews.add(review.id);
+    try {
+      await this.resolveReview(review, decision, reason);
+    } finally {
+      this.finishingReviews.delete(review.id);
+    }
+  }
+
+  private async resolveReview(
+    review: IReview,
+    decision: ReviewDecision,
+    reason: string
+  ): Promise<void> {
+    let cropped = this.reviewCrops.get(review.id);
+    let failed = false;
+    let outcome = "discarded";
+    if (decision === "approve") {
+      // Not cached after a restart: slice again with the review's settings
+      cropped ??=
+        (await this.cropTask(review.task, {
+          featherPx: review.featherPx,
+          layout: review.layout,
+        })) ?? undefined;
+      const crops = cropped?.stickers.map((img) => img.buffer) ?? [];
+      const chosen = new Map(
+        review.selected
+          .filter((i) => crops[i])
+          .map((i) => [i, crops[i]] as const)
+      );
+      outcome = `approved ${chosen.size}/${review.count}`;
+      try {
+        if (chosen.size) await this.sendTaskHeader(review.task);
+        await this.deliverStickers(review.task, chosen, review.details ?? "");
+        if (cropped) {
+          await this.recordStickerHashes(review.task, cropped, [
+            ...chosen.keys(),
+          ]);
+        }
+        await this.sendOriginalSheets(review.task, cropped?.sheets ?? []);
+        await this.archiveTask(review.task, cropped?.sheets ?? []);
+      } catch (deliverError) {
+        // Already sent stickers are skipped when approved again
+        console.error(`Failed to deliver review ${review.id}:`, deliverError);
+        this.recordError(
+          `Failed to deliver review ${review.id}: ${deliverError}`
+        );
+        failed = true;
+        outcome += ", sending failed, approve again to retry";
+      }
+    }
+
+    this.metrics.tasksProcessed.inc({
+      type: review.task.type,
+      result: failed ? "failed" : "delivered",
+    });
+    if (failed) {
+      // A fresh timeout, so an expired review isn't retried on every check
+      review.expiresAt = Date.now() + this.reviewTimeoutMs;
+      await this.reviews.set(review);
+    } else {
+      await this.reviews.delete(review.id);
+      this.reviewCrops.delete(review.id);
+      if (decision === "approve") {
+        await this.tasks.markDelivered(review.task.id);
+        this.recordTurnaround(review.task);
+      } else {
+        await this.tasks.markSkipped(review.task.id);
+      }
+    }
+
+    console.log(`Review ${review.id} ${outcome}${reason}.`);
+    try {
+      await this.bot.telegram.editMessageCaption(
+        this.chatId,
+        review.messageId,
+        undefined,
+        this.getMessage(review.task, {
+          suffix: `· review ${outcome}${reason}`,
+        }),
+        {
+          parse_mode: "HTML",
+          // Keeps the buttons of a review that is still open
+          ...(failed ? buildReviewKeyboard(review) : {}),
+        }
+      );
+    } catch (editError) {
+      console.warn(`Failed to update review message ${review.id}:`, editError);
+    }
+  }
+
+  private async expireReviews(): Promise<void> {
+    for (const review of this.reviews.expired()) {
+      try {
+        await this.finishReview(review, this.reviewDefault, " (timed out)");
+      } catch (error) {
+        console.error(`Failed to finish expired review ${review.id}:`, error);
+      }
+    }
+  }
+
+  // --- Sticker Sets ---
+
+  /**
+   * Adds stickers to the task's pack, creating the set on first use and rolling
+   * over to a numbered follow-up set whenever the current one is full.
+   * Posts the t.me/addstickers link of every set that received stickers,
+   * prefixed with optional details about the task.
+   */
+  private async publishStickerSet(
+    task: ITask,
+    stickers: Map<number, Buffer>,
+    format: StickerFormat = "static",
+    details?: string
+  ): Promise<void> {
+    const ownerId = this.stickerSetOwnerId!;
+    const target = getPackTarget(task, format);
+    const touched = new Map<string, IStickerSetRecord>();
+    const files: { idx: number; fileId: string }[] = [];
+
+    for (const [idx, source] of stickers.entries()) {
+      if (this.tasks.isStickerDelivered(task.id, idx)) continue;
+      const file = await this.sendWithRetry(
+        this.bot.telegram.uploadStickerFile,
+        [
+          ownerId,
+          Input.fromBuffer(
+            source,
+            `${idx}.${format === "video" ? "webm" : "webp"}`
+          ),
+          format,
+        ],
+        `sticker file ${idx} for task ${task.id}`
+      );
+      files.push({ idx, fileId: file.file_id });
+    }
+
+    let next = 0;
+    while (next < files.length) {
+      const open = this.stickerSets.getOpenSet(target.key);
+      if (!open) {
+        const batch = files.slice(next, next + MAX_INITIAL_STICKERS);
+        const created = await this.createStickerSet(
+          task,
+          batch.map((file) => file.fileId),
+          format
+        );
+        next += batch.length;
+        touched.set(created.name, created);
+        await this.stickerSets.save();
+        await this.recordStickersSent(
+          task.id,
+          batch.map((file) => file.idx)
+        );
+        continue;
+      }
+
+      const { idx, fileId } = files[next];
+      try {
+        await this.sendWithRetry(
+          this.bot.telegram.addStickerToSet,
+          [ownerId, open.name, { sticker: this.toInputSticker(fileId) }],
+          `sticker ${idx} to set ${open.name}`
+        );
+        open.count++;
+        next++;
+        touched.set(open.name, open);
+        await this.recordStickersSent(task.id, [idx]);
+      } catch (addError) {
+        if (!this.isStickerSetFullError(addError)) throw addError;
+        console.warn(`Sticker set ${open.name} is full, starting a new one.`);
+        open.count = MAX_STICKERS_PER_SET;
+      }
+      await this.stickerSets.save();
+    }
+
+    if (touched.size === 0) return; // Everything was published before
+    const links = [...touched.values()].map(
+      (set) =>
+        `<a href="${getStickerSetLink(set.name)}">${escapeHtml(
+          set.title
+        )}</a> (${set.count}/${MAX_STICKERS_PER_SET})`
+    );
+    await this.sendWithRetry(
+      this.bot.telegram.sendMessage,
+      [
+        this.chatId,
+        this.getMessage(task, {
+          suffix: [details, `→ ${links.join(", ")}`].filter(Boolean).join(" "),
+        }),
+        { parse_mode: "HTML" },
+      ],
+      `sticker set link for task ${task.id}`
+    );
+  }
+
+  /**
+   * Creates the next set of the task's pack. Names already taken on Telegram
+   * (by us or anyone else) are skipped by bumping the numeric suffix.
+   */
+  private async createStickerSet(
+    task: ITask,
+    fileIds: string[],
+    format: StickerFormat
+  ): Promise<IStickerSetRecord> {
+    const target = getPackTarget(task, format);
+    const botUsername = await this.getBotUsername();
+    const part = this.stickerSets.getSets(target.key).length + 1;
+    const title = buildStickerSetTitle(target.title, part);
+
+    for (
+      let attempt = part - 1;
+      attempt < part - 1 + MAX_NAME_ATTEMPTS;
+      attempt++
+    ) {
+      const name = buildStickerSetName(target.base, botUsername, attempt);
+      try {
+        await this.sendWithRetry(
+          this.bot.telegram.createNewStickerSet,
+          [
+            this.stickerSetOwnerId!,
+            name,
+            title,
+            {
+              stickers: fileIds.map((id) => this.toInputSticker(id)),
+              sticker_format: format,
             },
-            // Caption removed as per previous request
-          };
+          ],
+          `sticker set ${name}`
+        );
+      } catch (createError) {
+        if (this.isNameOccupiedError(createError)) {
+          console.warn(`Sticker set name ${name} is taken, trying another.`);
+          continue;
         }
-        console.warn(`Missing video URL for generation in task ${payload.id}`);
-        return null;
-      })
-      .filter((item): item is NonNullable<typeof item> => item !== null); // Type guard
+        throw createError;
+      }
+
+      console.log(`Created sticker set ${name} for task ${task.id}`);
+      const record = { name, title, count: fileIds.length };
+      this.stickerSets.addSet(target.key, record);
+      return record;
+    }
+    throw new Error(
+      `Could not find a free sticker set name for task ${task.id}`
+    );
+  }
+
+  private toInputSticker(fileId: string) {
+    return { sticker: fileId, emoji_list: [this.stickerEmoji] };
+  }
+
+  private async getBotUsername(): Promise<string> {
+    if (!this.botUsername) {
+      this.botUsername = (await this.bot.telegram.getMe()).username;
+    }
+    return this.botUsername;
+  }
+
+  private isNameOccupiedError(err: any): boolean {
+    return (
+      err instanceof TelegramError &&
+      /name is already occupied/i.test(err.description)
+    );
+  }
 
-    if (mediaGroup.length === 0) {
-      console.warn(`No valid video URLs found to send for task ${payload.id}`);
+  private isStickerSetFullError(err: any): boolean {
+    return (
+      err instanceof TelegramError &&
+      /STICKERS_TOO_MUCH|STICKERSET_FULL/i.test(err.description)
+    );
+  }
+
+  /**
+   * Converts every video generation into a WEBM video sticker. Clips that
+   * cannot meet Telegram's limits are reported to the chat and skipped.
+   */
+  private async sendVideoStickers(task: ITask): Promise<void> {
+    const stickers = new Map<number, Buffer>();
+    const sheets: IArchiveSheet[] = [];
+    await this.sendTaskHeader(task);
+    for (const [idx, gen] of task.outputs.entries()) {
+      if (this.tasks.isStickerDelivered(task.id, idx)) continue;
+
+      let source: Buffer;
+      try {
+        const sticker = await convertToVideoSticker(
+          gen.url,
+          this.normalizeOptions.margin,
+          this.backgroundOptions
+        );
+        console.log(
+          `Converted gen ${gen.id} to video sticker: ${sticker.bytes} bytes, ${sticker.fps} fps, ${sticker.durationSecs}s, crf ${sticker.crf}`
+        );
+        source = sticker.buffer;
+        sheets.push({
+          output: gen,
+          stickers: [source],
+          stickerExtension: ".webm",
+        });
+      } catch (convertError) {
+        if (!(convertError instanceof VideoStickerError)) throw convertError;
+        console.warn(
+          `Gen ${gen.id} can't become a video sticker: ${convertError.message}`
+        );
+        await this.sendWithRetry(
+          this.bot.telegram.sendMessage,
+          [
+            this.chatId,
+            this.getMessage(task, {
+              suffix: `can't become a video sticker: ${escapeHtml(
+                convertError.message
+              )}`,
+            }),
+            { parse_mode: "HTML" },
+          ],
+          `video sticker error for gen ${gen.id}`
+        );
+        continue;
+      }
+
+      if (this.stickerSetOwnerId) {
+        stickers.set(idx, source); // Published together below
+        continue;
+      }
+      await this.sendWithRetry(
+        this.bot.telegram.sendSticker,
+        [this.chatId, { source, filename: "sticker.webm" }],
+        `video sticker for gen ${gen.id}`
+      );
+      await this.recordStickersSent(task.id, [idx]);
+    }
+
+    if (stickers.size > 0) {
+      await this.publishStickerSet(task, stickers, "video");
+    }
+    await this.archiveTask(task, sheets);
+  }
+
+  /**
+   * Sends the videos of a task in media groups of up to 10. Telegram fetches
+   * them by URL when it can; otherwise the bot uploads them itself. Groups
+   * that went out are recorded, so a retry only sends the rest.
+   */
+  private async sendVideos(task: ITask): Promise<void> {
+    if (task.outputs.length === 0) {
+      console.warn(`No valid video URLs found to send for task ${task.id}`);
       return;
     }
+    const pending = [...task.outputs.entries()].filter(
+      ([idx]) => !this.tasks.isStickerDelivered(task.id, idx)
+    );
+    const groups = splitIntoGroups(pending);
+    // The header goes into the caption of the first video if it fits
+    let caption = this.getTaskHeader(task);
+    if (caption && caption.length > CAPTION_LIMIT) {
+      await this.sendTaskHeader(task);
+      caption = undefined;
+    }
 
     console.log(
-      `Attempting to send ${mediaGroup.length} videos for task ${payload.id}`
+      `Attempting to send ${pending.length} videos for task ${task.id} in ${groups.length} groups`
+    );
+    for (const [groupIdx, group] of groups.entries()) {
+      const context = `video group ${groupIdx + 1}/${groups.length} for task ${
+        task.id
+      }`;
+      try {
+        await this.sendVideoGroup(
+          task,
+          group.map(([, output]) => output),
+          context,
+          groupIdx === 0 ? caption : undefined
+        );
+        console.log(`Successfully sent ${context}`);
+      } catch (sendError) {
+        console.error(`Failed to send ${context} after retries: ${sendError}`);
+        // Throwing marks the task as failed, so the group is retried later
+        throw sendError;
+      }
+      await this.tasks.markStickersDelivered(
+        task.id,
+        group.map(([idx]) => idx)
+      );
+      if (groupIdx === 0 && caption) await this.tasks.markHeaderSent(task.id);
+    }
+    await this.archiveTask(
+      task,
+      task.outputs.map((output) => ({ output, stickers: [] }))
     );
-    // TODO: Implement splitting into multiple groups if mediaGroup.length > 10
+  }
 
-    try {
-      await this.sendWithRetry(
-        this.bot.telegram.sendMediaGroup,
-        [this.chatId, mediaGroup],
-        `video group for task ${payload.id}`
+  /**
+   * Lets Telegram fetch the videos by URL, which saves downloading them, as
+   * long as they are small enough. Uploads them when that is not possible or
+   * Telegram could not fetch them.
+   * @param caption HTML caption for the first video.
+   */
+  private async sendVideoGroup(
+    task: ITask,
+    outputs: ITaskOutput[],
+    context: string,
+    caption?: string
+  ): Promise<void> {
+    const withCaption = <T>(mediaGroup: T[]): T[] =>
+      caption
+        ? mediaGroup.map((item, idx) =>
+            idx === 0 ? { ...item, caption, parse_mode: "HTML" as const } : item
+          )
+        : mediaGroup;
+    const byUrl = outputs.every(
+      (output) =>
+        isRemoteUrl(output.url) && fitsLimit(output, URL_SEND_LIMIT_BYTES)
+    );
+    if (byUrl) {
+      const mediaGroup = outputs.map((output) => ({
+        type: "video" as const,
+        media: output.url,
+        ...getVideoMetadata(output),
+      }));
+      try {
+        await this.sendWithRetry(
+          this.bot.telegram.sendMediaGroup,
+          [this.chatId, withCaption(mediaGroup)],
+          context
+        );
+        return;
+      } catch (sendError) {
+        if (!isUrlFetchError(sendError)) throw sendError;
+        console.warn(`Telegram could not fetch the ${context}, uploading it.`);
+      }
+    }
+
+    const mediaGroup: InputMediaVideo[] = [];
+    for (const output of outputs) {
+      mediaGroup.push(await this.readVideoForUpload(task, output));
+    }
+    await this.sendWithRetry(
+      this.bot.telegram.sendMediaGroup,
+      [this.chatId, withCaption(mediaGroup)],
+      `${context} (upload)`
+    );
+  }
+
+  /**
+   * Reads a video into memory for uploading, falling back to a smaller
+   * rendition when the source is over Telegram's upload limit. Adds the
+   * thumbnail as the preview when there is one.
+   */
+  private async readVideoForUpload(
+    task: ITask,
+    output: ITaskOutput
+  ): Promise<InputMediaVideo> {
+    let video: { rendition: IRendition; data: Buffer } | undefined;
+    for (const rendition of [output, ...(output.smaller ?? [])]) {
+      if (!fitsLimit(rendition, UPLOAD_LIMIT_BYTES)) continue;
+      const data = await readOutput(rendition.url);
+      // The size isn't always known up front
+      if (data.length > UPLOAD_LIMIT_BYTES) continue;
+      video = { rendition, data };
+      break;
+    }
+    if (!video) {
+      throw new Error(
+        `Video ${output.id} is over ${
+          UPLOAD_LIMIT_BYTES / 1024 / 1024
+        } MB in every rendition.`
       );
-      console.log(`Successfully sent video group for task ${payload.id}`);
-    } catch (sendError) {
-      console.error(
-        `Failed to send video group for task ${payload.id} after retries: ${sendError}`
+    }
+    if (video.rendition !== output) {
+      console.log(
+        `Uploading a smaller rendition of ${output.id} (${video.data.length} bytes).`
       );
-      // Decide if this failure should prevent the lastId from updating
-      // Throwing an error here will propagate up and cause handleSucceededTask to return false
-      throw sendError;
     }
+
+    let thumbnail: Buffer | undefined;
+    if (output.thumbnailUrl) {
+      thumbnail = await readOutput(output.thumbnailUrl).catch((error) => {
+        console.warn(`Could not read the thumbnail of ${output.id}:`, error);
+        return undefined;
+      });
+    }
+    return {
+      type: "video",
+      media: Input.fromBuffer(
+        video.data,
+        `${output.title || task.title || task.id}.mp4`
+      ),
+      // Telegram rejects larger previews, and the whole group with them
+      ...(thumbnail && thumbnail.length <= THUMBNAIL_LIMIT_BYTES
+        ? { thumbnail: Input.fromBuffer(thumbnail, "thumbnail.jpg") }
+        : {}),
+      ...getVideoMetadata(video.rendition),
+    };
   }
 
   // --- Progress Handling ---
 
-  private async handleProgressUpdate(payload: IPayload): Promise<void> {
-    this.status = payload.status; // Update overall status
+  /**
+   * Updates the progress message of every queued or running task in the
+   * batch, and removes the messages of tasks that finished or, for a complete
+   * batch, dropped out of the source.
+   */
+  private async updateProgress(batch: ITaskBatch): Promise<void> {
+    const latest = new Map<string, ITask>();
+    // Oldest first, so the last state of a task is its current one
+    for (const task of batch.tasks) latest.set(task.id, task);
+
+    for (const task of latest.values()) {
+      if (isActiveStatus(task.status, task.createdAt)) {
+        await this.handleProgressUpdate(task);
+      }
+    }
+    for (const [taskId, entry] of [...this.activeTasks]) {
+      if (entry.task.source !== batch.source) continue;
+      const task = latest.get(taskId);
+      if (
+        task ? !isActiveStatus(task.status, task.createdAt) : batch.complete
+      ) {
+        await this.clearProgressMessage(taskId, task?.status);
+      }
+    }
+  }
+
+  private async handleProgressUpdate(task: ITask): Promise<void> {
+    let entry = this.activeTasks.get(task.id);
+    if (!entry) {
+      entry = { task, history: [] };
+      this.activeTasks.set(task.id, entry);
+    }
+    entry.task = task;
 
+    if (task.status === TaskStatus.queued) {
+      // Position and wait only change now and then, so compare the text
+      const text = this.getMessage(task, {
+        suffix: escapeHtml(formatQueuedProgress(task)),
+      });
+      if (text !== entry.text) await this.showProgress(entry, text);
+      return;
+    }
+
+    if (task.progress == null) return; // Check for null/undefined
+    entry.history = recordProgress(entry.history, task.progress);
+    const progress = Math.round(task.progress * 100);
+
+    // Only update if progress changed significantly or message doesn't exist
     if (
-      this.status === TaskStatus.running &&
-      payload.progress_pct != null // Check for null/undefined
+      !entry.messageId ||
+      entry.progress === undefined ||
+      Math.abs(entry.progress - progress) >= 1 // Update if changed by >= 1%
     ) {
-      const progress = Math.round(payload.progress_pct * 100);
-
-      // Only update if progress changed significantly or message doesn't exist
-      if (
-        !this.progressMessageId ||
-        !this.progress ||
-        Math.abs(this.progress - progress) >= 1 // Update if changed by >= 1%
-      ) {
-        this.progress = progress;
-        const text = this.getMessage(payload, { suffix: `${progress}%` });
-        console.log(`Updating progress for ${payload.id}: ${progress}%`);
+      entry.progress = progress;
+      console.log(`Updating progress for ${task.id}: ${progress}%`);
+      await this.showProgress(
+        entry,
+        this.getMessage(task, {
+          suffix: `\n${formatRunningProgress(entry.history)}`,
+        })
+      );
+    }
+  }
 
-        if (this.progressMessageId) {
-          await this.editProgressMessage(text);
-        } else {
-          await this.sendNewProgressMessage(text);
-        }
-      }
+  private async showProgress(entry: ITaskProgress, text: string) {
+    entry.text = text;
+    if (entry.messageId) {
+      await this.editProgressMessage(entry, text);
     } else {
-      // If the status is NOT running, clear the progress message.
-      await this.clearProgressMessageIfNeeded(this.status);
+      await this.sendNewProgressMessage(entry, text);
     }
   }
 
-  private async editProgressMessage(text: string): Promise<void> {
-    if (!this.progressMessageId) return;
+  private async editProgressMessage(
+    entry: ITaskProgress,
+    text: string
+  ): Promise<void> {
+    if (!entry.messageId) return;
     try {
       await this.bot.telegram.editMessageText(
         this.chatId,
-        this.progressMessageId,
+        entry.messageId,
         undefined, // inline_message_id
         text,
         { parse_mode: "HTML" }
@@ -500,91 +1702,215 @@ class Notificator {
     } catch (editError: any) {
       if (
         editError.response?.error_code === 400 &&
-        (editError.description?.includes("message to edit not found") ||
-          editError.description?.includes("message is not modified"))
+        editError.description?.includes("message is not modified")
+      ) {
+        return; // Same text as before, nothing to do
+      }
+      if (
+        editError.response?.error_code === 400 &&
+        editError.description?.includes("message to edit not found")
       ) {
         console.warn(
-          `Failed to edit progress message (not found or not modified), sending new one. Error: ${editError.description}`
+          `Progress message for ${entry.task.id} not found, sending new one. Error: ${editError.description}`
         );
-        delete this.progressMessageId; // Reset ID
-        await this.sendNewProgressMessage(text); // Send fresh
+        delete entry.messageId; // Reset ID
+        await this.sendNewProgressMessage(entry, text); // Send fresh
       } else {
-        console.error("Failed to edit progress message:", editError);
-        // Consider deleting the message ID if edit fails persistently?
-        // delete this.progressMessageId;
+        console.error(
+          `Failed to edit progress message for ${entry.task.id}:`,
+          editError
+        );
       }
     }
   }
 
-  private async sendNewProgressMessage(text: string): Promise<void> {
+  private async sendNewProgressMessage(
+    entry: ITaskProgress,
+    text: string
+  ): Promise<void> {
     try {
       const message = await this.bot.telegram.sendMessage(this.chatId, text, {
         parse_mode: "HTML",
         disable_notification: true, // Keep progress updates silent
       });
-      this.progressMessageId = message.message_id;
-      console.log(`Sent new progress message (ID: ${this.progressMessageId})`);
+      entry.messageId = message.message_id;
+      console.log(
+        `Sent new progress message for ${entry.task.id} (ID: ${entry.messageId})`
+      );
     } catch (sendError) {
-      console.error("Failed to send new progress message:", sendError);
+      console.error(
+        `Failed to send progress message for ${entry.task.id}:`,
+        sendError
+      );
       // Reset progress state if sending fails
-      delete this.progressMessageId;
-      delete this.progress;
+      delete entry.messageId;
+      delete entry.progress;
+      delete entry.text;
     }
   }
 
-  private async clearProgressMessageIfNeeded(
-    currentStatus?: TaskStatus
+  /** Deletes a task's progress message once it left the queue. */
+  private async clearProgressMessage(
+    taskId: string,
+    status?: TaskStatus
   ): Promise<void> {
-    // Clear if message exists AND status is terminal (succeeded, failed) or undefined
-    const isTerminalStatus =
-      currentStatus &&
-      currentStatus !== TaskStatus.running &&
-      currentStatus !== TaskStatus.queued;
+    const task = this.activeTasks.get(taskId);
+    this.activeTasks.delete(taskId);
+    if (!task?.messageId) return;
 
-    if (this.progressMessageId && (isTerminalStatus || !currentStatus)) {
-      console.log(
-        `Task status is ${
-          currentStatus || "finished/undefined"
-        }. Deleting progress message (ID: ${this.progressMessageId}).`
-      );
+    console.log(
+      `Task ${taskId} is ${
+        status || "finished/undefined"
+      }. Deleting progress message (ID: ${task.messageId}).`
+    );
+    try {
+      await this.bot.telegram.deleteMessage(this.chatId, task.messageId);
+    } catch (deleteError: any) {
+      if (
+        !(
+          deleteError.response?.error_code === 400 &&
+          deleteError.description?.includes("message to delete not found")
+        )
+      ) {
+        console.error(
+          `Failed to delete progress message for ${taskId}:`,
+          deleteError
+        );
+      }
+    }
+  }
+
+  private getActiveSummary(): string {
+    if (!this.activeTasks.size) return "idle";
+    const counts = new Map<TaskStatus, number>();
+    for (const { task } of this.activeTasks.values()) {
+      counts.set(task.status, (counts.get(task.status) ?? 0) + 1);
+    }
+    return [...counts].map(([status, n]) => `${n} ${status}`).join(", ");
+  }
+
+  // --- Headers and Originals ---
+
+  /** The task's MESSAGE_TEMPLATE header, until it was sent once. */
+  private getTaskHeader(task: ITask): string | undefined {
+    if (!this.messageTemplate || this.tasks.isHeaderSent(task.id)) {
+      return undefined;
+    }
+    return renderTaskTemplate(this.messageTemplate, task) || undefined;
+  }
+
+  /** Posts the header ahead of a task's stickers, once. */
+  private async sendTaskHeader(task: ITask): Promise<void> {
+    const header = this.getTaskHeader(task);
+    if (!header) return;
+    await this.sendWithRetry(
+      this.bot.telegram.sendMessage,
+      [
+        this.chatId,
+        header,
+        { parse_mode: "HTML", link_preview_options: { is_disabled: true } },
+      ],
+      `header for task ${task.id}`
+    );
+    await this.tasks.markHeaderSent(task.id);
+  }
+
+  /**
+   * Sends the uncropped sheets as documents when SEND_ORIGINALS is set, to
+   * check the slicing against them. They are extras: failures are logged and
+   * don't fail the task.
+   */
+  private async sendOriginalSheets(
+    task: ITask,
+    sheets: IArchiveSheet[]
+  ): Promise<void> {
+    if (!this.sendOriginals) return;
+    for (const [idx, sheet] of sheets.entries()) {
+      if (!sheet.original) continue;
+      const filename = `${task.title || task.id}${
+        sheets.length > 1 ? ` ${idx + 1}` : ""
+      }${getOutputExtension(sheet.output.url, task.type)}`;
       try {
-        await this.bot.telegram.deleteMessage(
-          this.chatId,
-          this.progressMessageId
+        await this.sendWithRetry(
+          this.bot.telegram.sendDocument,
+          [
+            this.chatId,
+            Input.fromBuffer(sheet.original, filename),
+            {
+              caption: this.getMessage(task, {
+                suffix: `· original${
+                  sheet.layout ? `, ${sheet.layout} grid` : ""
+                }`,
+              }),
+              parse_mode: "HTML",
+              disable_notification: true,
+            },
+          ],
+          `original sheet ${idx + 1} for task ${task.id}`
+        );
+      } catch (sendError) {
+        console.error(
+          `Failed to send the original sheet of task ${task.id}:`,
+          sendError
         );
-      } catch (deleteError: any) {
-        if (
-          !(
-            deleteError.response?.error_code === 400 &&
-            deleteError.description?.includes("message to delete not found")
-          )
-        ) {
-          console.error("Failed to delete progress message:", deleteError);
-        }
-      } finally {
-        // Always clear local state after attempting deletion
-        delete this.progressMessageId;
-        delete this.progress;
       }
-    } else if (!this.progressMessageId) {
-      // Ensure progress state is clear if no message ID exists
-      delete this.progress;
     }
   }
 
   // --- Helpers ---
 
-  private getMessage(payload: IPayload, opts: IGetMessageOptions): string {
-    const baseUrl = `https://sora.com/t/${payload.id}`;
-    const url = opts.linkUrl || baseUrl;
-    const linkText = opts?.linkText || payload.title || `Task ${payload.id}`;
-    // Basic HTML escaping for link text
-    const escapedLinkText = linkText
-      .replace(/&/g, "&")
-      .replace(/</g, "<")
-      .replace(/>/g, ">");
-
-    const link = `<a href="${url}">${escapedLinkText}</a>`;
+  /**
+   * Keeps the originals and stickers of a delivered task when an archive is
+   * configured. Failures are logged, the task was delivered anyway.
+   */
+  private async archiveTask(
+    task: ITask,
+    sheets: IArchiveSheet[]
+  ): Promise<void> {
+    if (!this.archive || !sheets.length) return;
+    try {
+      const entry = await this.archive.add(task, sheets);
+      console.log(`Archived task ${task.id} to ${entry.prefix}`);
+    } catch (archiveError) {
+      console.error(`Failed to archive task ${task.id}:`, archiveError);
+      this.recordError(`Failed to archive task ${task.id}: ${archiveError}`);
+    }
+  }
+
+  private async recordStickersSent(
+    taskId: string,
+    indices: number[]
+  ): Promise<void> {
+    await this.tasks.markStickersDelivered(taskId, indices);
+    this.metrics.stickersSent.inc({}, indices.length);
+  }
+
+  /** Time from creation at the source to delivery, for successful tasks only. */
+  private recordTurnaround(task: ITask): void {
+    if (task.status !== TaskStatus.succeeded || !task.createdAt) return;
+    this.metrics.turnaroundSeconds.observe(
+      (Date.now() - task.createdAt) / 1000
+    );
+  }
+
+  private rememberTask(task: ITask): void {
+    this.recentTasks.delete(task.id); // Re-insert as most recent
+    this.recentTasks.set(task.id, task);
+    if (this.recentTasks.size > RECENT_TASKS_LIMIT) {
+      const oldest = this.recentTasks.keys().next().value!;
+      this.recentTasks.delete(oldest);
+    }
+  }
+
+  /** The task's title, linked to its page when the source has one. */
+  private getMessage(task: ITask, opts: IGetMessageOptions): string {
+    const url = opts.linkUrl || task.link;
+    const linkText = escapeHtml(
+      opts?.linkText || task.title || `Task ${task.id}`
+    );
+    const link = url
+      ? `<a href="${escapeHtml(url)}">${linkText}</a>`
+      : `<b>${linkText}</b>`;
     return opts.suffix ? `${link} ${opts.suffix}` : link;
   }
 
@@ -593,9 +1919,9 @@ class Notificator {
   private setupShutdownHandlers(): void {
     const shutdown = (signal: string) => {
       console.log(`Received ${signal}. Shutting down gracefully...`);
-      if (this.fetchTimeoutId) {
-        clearTimeout(this.fetchTimeoutId);
-      }
+      for (const source of this.sources) source.stop();
+      this.healthServer?.close();
+      if (this.ownerId) this.bot.stop(signal);
       // Add any other cleanup logic here (e.g., close DB connections)
       console.log("Shutdown complete.");
       process.exit(0);
@@ -0,0 +1,43 @@
+import { TaskStatus } from "./types";
+import { ITask } from "./source";
+
+/** Blocked by moderation, as opposed to a technical failure. */
+export function isModerated(task: ITask): boolean {
+  return !!task.moderated;
+}
+
+/** e.g. `2 of 4 variants withheld as unsafe`, or undefined if none were. */
+export function getUnsafeNote(task: ITask): string | undefined {
+  const unsafe = task.unsafeVariants || 0;
+  if (unsafe <= 0) return undefined;
+  const total = Math.max(task.variants || 0, unsafe);
+  return `${unsafe} of ${total} variant${
+    total === 1 ? "" : "s"
+  } withheld as unsafe`;
+}
+
+/**
+ * Explains why a task produced nothing (or less than asked), e.g.
+ * `failed: Server overloaded · flagged for review`.
+ */
+export function describeTaskOutcome(task: ITask): string {
+  const parts: string[] = [];
+  const reason = task.failureReason?.trim() ?? "";
+
+  if (task.status === TaskStatus.failed) {
+    parts.push(reason ? `failed: ${reason}` : "failed");
+  } else if (task.status === TaskStatus.cancelled) {
+    parts.push(reason ? `cancelled: ${reason}` : "cancelled");
+  } else if (reason) {
+    parts.push(reason);
+  }
+
+  if (isModerated(task)) {
+    const code = task.moderationCode;
+    parts.push(`blocked by moderation${code ? ` (${code})` : ""}`);
+  }
+  const unsafe = getUnsafeNote(task);
+  if (unsafe) parts.push(unsafe);
+  if (task.needsReview) parts.push("flagged for review");
+  return parts.join(" · ") || `finished as ${task.status}`;
+}
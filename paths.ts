@@ -0,0 +1,11 @@
+import path from "path";
+
+/**
+ * Folder holding the state files (task journal, reviews, sticker sets,
+ * headers). Defaults to the project folder; tests point it elsewhere.
+ */
+export const STATE_DIR = process.env.STATE_DIR || __dirname;
+
+export function statePath(name: string): string {
+  return path.join(STATE_DIR, name);
+}
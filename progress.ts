@@ -0,0 +1,90 @@
+import { ITask } from "./source";
+
+// --- Constants ---
+const BAR_WIDTH = 10;
+const MAX_HISTORY = 30; // Samples kept per task for the ETA
+// Need this much progress before extrapolating, early samples are noisy
+const MIN_ETA_PROGRESS = 0.05;
+
+// --- Interfaces ---
+export interface IProgressSample {
+  at: number; // ms timestamp
+  pct: number; // 0..1
+}
+
+/** Keeps the history bounded, the oldest kept sample stays the start time. */
+export function recordProgress(
+  history: IProgressSample[],
+  pct: number,
+  at = Date.now()
+): IProgressSample[] {
+  const last = history[history.length - 1];
+  if (last && last.pct === pct) return history;
+  const next = [...history, { at, pct }];
+  // Drop from the middle so elapsed time still counts from the first sample
+  return next.length > MAX_HISTORY
+    ? [next[0], ...next.slice(-MAX_HISTORY + 1)]
+    : next;
+}
+
+/**
+ * Extrapolates completion from the progress rate over the recorded history.
+ * @returns Remaining milliseconds, or undefined while there is too little data.
+ */
+export function estimateRemainingMs(
+  history: IProgressSample[]
+): number | undefined {
+  if (history.length < 2) return undefined;
+  const first = history[0];
+  const last = history[history.length - 1];
+  const gained = last.pct - first.pct;
+  if (gained < MIN_ETA_PROGRESS || last.at <= first.at) return undefined;
+  const rate = gained / (last.at - first.at);
+  return Math.max(0, (1 - last.pct) / rate);
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+export function formatProgressBar(pct: number): string {
+  const filled = Math.round(Math.min(1, Math.max(0, pct)) * BAR_WIDTH);
+  return "▓".repeat(filled) + "░".repeat(BAR_WIDTH - filled);
+}
+
+/**
+ * Queue details of a task, e.g. `queued · #3 in line · ~2m 0s wait`. The
+ * source's own queue message is appended when it has one.
+ */
+export function formatQueuedProgress(task: ITask): string {
+  const parts = ["queued"];
+  if (task.queuePosition !== undefined) {
+    parts.push(`#${task.queuePosition} in line`);
+  }
+  if (task.queueWaitSecs !== undefined) {
+    parts.push(`~${formatDuration(task.queueWaitSecs * 1000)} wait`);
+  }
+  const message = task.queueMessage?.trim();
+  if (message) parts.push(message);
+  return parts.join(" · ");
+}
+
+/** A percentage bar with elapsed time and, once known, the time left. */
+export function formatRunningProgress(
+  history: IProgressSample[],
+  now = Date.now()
+): string {
+  const last = history[history.length - 1];
+  const pct = last?.pct ?? 0;
+  const parts = [`${formatProgressBar(pct)} ${Math.round(pct * 100)}%`];
+  if (history.length) {
+    parts.push(`${formatDuration(now - history[0].at)} elapsed`);
+  }
+  const remaining = estimateRemainingMs(history);
+  if (remaining !== undefined) parts.push(`~${formatDuration(remaining)} left`);
+  return parts.join(" · ");
+}
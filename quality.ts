@@ -0,0 +1,196 @@
+// --- Constants ---
+export const CROP_CHECK_MODES = ["warn", "hold", "off"] as const;
+export const DEFAULT_MIN_CROP_SCORE = 0.6;
+const EDGE_MARGIN_PX = 2; // Closer than this to an edge counts as touching it
+const SMALL_CROP_RATIO = 0.25; // Of the median subject area of the sheet
+const ISLAND_MIN_SHARE = 0.15; // Smaller pieces are accessories, not subjects
+
+// --- Interfaces ---
+export type CropCheckMode = (typeof CROP_CHECK_MODES)[number];
+
+/**
+ * - `empty`: no subject was found in the cell
+ * - `clipped`: the subject touches the edge of the sheet, it was likely cut off
+ * - `cellEdge`: the subject reaches the border of its cell or spills past it
+ * - `overlap`: the crop overlaps the crop of another cell
+ * - `small`: the subject is much smaller than its siblings, e.g. a stray piece
+ * - `islands`: the crop holds several separate subjects
+ */
+export type CropIssue =
+  | "empty"
+  | "clipped"
+  | "cellEdge"
+  | "overlap"
+  | "small"
+  | "islands";
+
+export interface IBoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ICellMeasurement {
+  index: number; // Cell index, row by row
+  row: number;
+  col: number;
+  cell: IBoundingBox; // The cell's share of the sheet
+  bbox?: IBoundingBox; // Union rect of the cell's contours, none when empty
+  areas: number[]; // Area of every contour assigned to the cell, in px
+}
+
+export interface ICropReport {
+  index: number;
+  row: number;
+  col: number;
+  score: number; // 0..1, 1 is a clean crop
+  issues: CropIssue[];
+  area: number; // Subject area in px
+  islands: number; // Pieces big enough to count as a subject
+}
+
+const ISSUE_PENALTIES: Record<CropIssue, number> = {
+  empty: 1,
+  clipped: 0.5,
+  cellEdge: 0.3,
+  overlap: 0.5,
+  small: 0.3,
+  islands: 0.5,
+};
+
+const ISSUE_LABELS: Record<CropIssue, string> = {
+  empty: "empty",
+  clipped: "cut off at the sheet edge",
+  cellEdge: "crosses its cell",
+  overlap: "overlaps a neighbor",
+  small: "unusually small",
+  islands: "several subjects",
+};
+
+export function parseCropCheckMode(
+  text: string | undefined
+): CropCheckMode | undefined {
+  const mode = text?.trim().toLowerCase();
+  return CROP_CHECK_MODES.find((known) => known === mode);
+}
+
+/**
+ * Parses a minimum crop score from 0 to 1.
+ * @returns undefined if it is anything else.
+ */
+export function parseMinCropScore(
+  text: string | undefined
+): number | undefined {
+  if (!text?.trim()) return undefined;
+  const score = Number(text);
+  return score >= 0 && score <= 1 ? score : undefined;
+}
+
+function intersects(a: IBoundingBox, b: IBoundingBox): boolean {
+  return (
+    a.x < b.x + b.width &&
+    b.x < a.x + a.width &&
+    a.y < b.y + b.height &&
+    b.y < a.y + a.height
+  );
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Scores the cells of a sliced sheet. Every issue found lowers the score of
+ * a crop by its penalty; empty cells score 0.
+ */
+export function assessCrops(
+  cells: ICellMeasurement[],
+  sheet: { width: number; height: number }
+): ICropReport[] {
+  const filled = cells.filter((cell) => cell.bbox);
+  const totalArea = (cell: ICellMeasurement) =>
+    cell.areas.reduce((sum, area) => sum + area, 0);
+  // Comparing against siblings needs a few of them to be meaningful
+  const typicalArea = filled.length >= 3 ? median(filled.map(totalArea)) : 0;
+
+  return cells.map((cell) => {
+    const { index, row, col, bbox } = cell;
+    const area = totalArea(cell);
+    const islands = cell.areas.filter(
+      (piece) => piece >= area * ISLAND_MIN_SHARE
+    ).length;
+    const issues: CropIssue[] = [];
+    if (!bbox) {
+      issues.push("empty");
+    } else {
+      const x1 = bbox.x + bbox.width;
+      const y1 = bbox.y + bbox.height;
+      if (
+        bbox.x < EDGE_MARGIN_PX ||
+        bbox.y < EDGE_MARGIN_PX ||
+        x1 > sheet.width - EDGE_MARGIN_PX ||
+        y1 > sheet.height - EDGE_MARGIN_PX
+      ) {
+        issues.push("clipped");
+      }
+      // Only inner cell borders, the outer ones are the sheet edges above
+      const { cell: c } = cell;
+      const touchesCell =
+        (c.x > 0 && bbox.x < c.x + EDGE_MARGIN_PX) ||
+        (c.y > 0 && bbox.y < c.y + EDGE_MARGIN_PX) ||
+        (c.x + c.width < sheet.width && x1 > c.x + c.width - EDGE_MARGIN_PX) ||
+        (c.y + c.height < sheet.height && y1 > c.y + c.height - EDGE_MARGIN_PX);
+      if (touchesCell) issues.push("cellEdge");
+      if (
+        filled.some((other) => other !== cell && intersects(bbox, other.bbox!))
+      ) {
+        issues.push("overlap");
+      }
+      if (area < typicalArea * SMALL_CROP_RATIO) issues.push("small");
+      if (islands > 1) issues.push("islands");
+    }
+    const penalty = issues.reduce(
+      (sum, issue) => sum + ISSUE_PENALTIES[issue],
+      0
+    );
+    const score = Math.round(Math.max(0, 1 - penalty) * 100) / 100;
+    return { index, row, col, score, issues, area, islands };
+  });
+}
+
+export function formatCropIssues(report: ICropReport): string {
+  return report.issues.map((issue) => ISSUE_LABELS[issue]).join(", ");
+}
+
+/**
+ * One line about the crops scoring below `minScore`, numbered from 1 in
+ * delivery order like the review buttons, e.g.
+ * `⚠️ Check crops 3 (cut off at the sheet edge), 5 (several subjects) · 1 empty cell`.
+ * @returns undefined when there is nothing to point out.
+ */
+export function summarizeCropQuality(
+  reports: ICropReport[],
+  emptyCells: number,
+  minScore: number,
+  held = false
+): string | undefined {
+  const low = reports
+    .map((report, n) => ({ report, n }))
+    .filter(({ report }) => report.score < minScore)
+    .map(({ report, n }) => `${n + 1} (${formatCropIssues(report)})`);
+  const parts: string[] = [];
+  if (low.length) {
+    parts.push(
+      `${held ? "Held back" : "Check"} crop${
+        low.length > 1 ? "s" : ""
+      } ${low.join(", ")}`
+    );
+  }
+  if (emptyCells) {
+    parts.push(`${emptyCells} empty cell${emptyCells > 1 ? "s" : ""}`);
+  }
+  return parts.length ? `⚠️ ${parts.join(" · ")}` : undefined;
+}
@@ -0,0 +1,260 @@
+import * as cv from "opencv4nodejs";
+import crypto from "crypto";
+import fs from "fs/promises";
+import { Markup, Telegraf } from "telegraf";
+import { IPayload } from "./types";
+import { ITask } from "./source";
+import { toTask } from "./soraSource";
+import { formatGridLayout, IGridLayout } from "./grid";
+import { statePath } from "./paths";
+
+// --- Constants ---
+const REVIEWS_FILE_PATH = statePath("reviews.json");
+const TILE_SIZE = 192; // px per crop on the contact sheet
+const TILE_GAP = 8;
+const SHEET_BACKGROUND = 200; // Light gray shows both dark and white stickers
+const BUTTONS_PER_ROW = 5;
+export const FEATHER_STEP = 5;
+// Layouts offered by the grid button, undefined means "detect"
+export const REVIEW_GRID_CYCLE: (IGridLayout | undefined)[] = [
+  undefined,
+  { rows: 2, cols: 2 },
+  { rows: 3, cols: 3 },
+  { rows: 4, cols: 4 },
+];
+
+// --- Interfaces ---
+export type ReviewDecision = "approve" | "discard";
+
+export interface IReview {
+  id: string;
+  task: ITask;
+  messageId?: number;
+  featherPx: number;
+  layout?: IGridLayout; // Forced by a re-slice, undefined keeps the task's own
+  details?: string; // Grid and background summary of the current slicing
+  count: number; // Crops on the current contact sheet
+  selected: number[]; // Indices of the crops that will become stickers
+  expiresAt: number;
+}
+
+export type ReviewAction =
+  | { type: "toggle"; index: number }
+  | { type: "approve" }
+  | { type: "discard" }
+  | { type: "feather"; delta: number }
+  | { type: "grid" };
+
+export function createReviewId(): string {
+  return crypto.randomBytes(4).toString("hex");
+}
+
+// --- Callback Data ---
+// Kept short, Telegram allows at most 64 bytes of callback data
+
+export function parseReviewCallback(
+  data: string
+): { reviewId: string; action: ReviewAction } | undefined {
+  const [prefix, reviewId, type, arg] = data.split(":");
+  if (prefix !== "rv" || !reviewId) return undefined;
+  switch (type) {
+    case "t":
+      return { reviewId, action: { type: "toggle", index: Number(arg) } };
+    case "ok":
+      return { reviewId, action: { type: "approve" } };
+    case "no":
+      return { reviewId, action: { type: "discard" } };
+    case "f":
+      return { reviewId, action: { type: "feather", delta: Number(arg) } };
+    case "g":
+      return { reviewId, action: { type: "grid" } };
+  }
+  return undefined;
+}
+
+export function buildReviewKeyboard(review: IReview) {
+  const toggles = Array.from({ length: review.count }, (_, i) =>
+    Markup.button.callback(
+      `${review.selected.includes(i) ? "✅" : "❌"} ${i + 1}`,
+      `rv:${review.id}:t:${i}`
+    )
+  );
+  const rows = [];
+  for (let i = 0; i < toggles.length; i += BUTTONS_PER_ROW) {
+    rows.push(toggles.slice(i, i + BUTTONS_PER_ROW));
+  }
+  const nextLayout = getNextReviewLayout(review.layout);
+  rows.push([
+    Markup.button.callback(
+      `Feather −${FEATHER_STEP}`,
+      `rv:${review.id}:f:-${FEATHER_STEP}`
+    ),
+    Markup.button.callback(
+      `Feather +${FEATHER_STEP}`,
+      `rv:${review.id}:f:${FEATHER_STEP}`
+    ),
+    Markup.button.callback(
+      `Grid → ${nextLayout ? formatGridLayout(nextLayout) : "auto"}`,
+      `rv:${review.id}:g`
+    ),
+  ]);
+  rows.push([
+    Markup.button.callback(
+      `Approve ${review.selected.length}/${review.count}`,
+      `rv:${review.id}:ok`
+    ),
+    Markup.button.callback("Discard", `rv:${review.id}:no`),
+  ]);
+  return Markup.inlineKeyboard(rows);
+}
+
+export function getNextReviewLayout(
+  layout: IGridLayout | undefined
+): IGridLayout | undefined {
+  const idx = REVIEW_GRID_CYCLE.findIndex(
+    (candidate) =>
+      candidate?.rows === layout?.rows && candidate?.cols === layout?.cols
+  );
+  return REVIEW_GRID_CYCLE[(idx + 1) % REVIEW_GRID_CYCLE.length];
+}
+
+/** Routes inline keyboard presses on review messages to the handler. */
+export function registerReviewActions(
+  bot: Telegraf,
+  handler: (reviewId: string, action: ReviewAction) => Promise<string>
+): void {
+  bot.action(/^rv:/, async (ctx) => {
+    const parsed = parseReviewCallback(ctx.match.input);
+    if (!parsed) return ctx.answerCbQuery("Unknown action.");
+    try {
+      await ctx.answerCbQuery(await handler(parsed.reviewId, parsed.action));
+    } catch (error) {
+      console.error(
+        `Failed to handle review action ${ctx.match.input}:`,
+        error
+      );
+      await ctx.answerCbQuery("Something went wrong, see the logs.");
+    }
+  });
+}
+
+// --- Contact Sheet ---
+
+/**
+ * Renders all crops as numbered tiles on one JPEG, so a whole task can be
+ * reviewed from a single photo message.
+ */
+export function buildContactSheet(stickers: Buffer[]): Buffer {
+  const cols = Math.ceil(Math.sqrt(stickers.length));
+  const rows = Math.ceil(stickers.length / cols);
+  const step = TILE_SIZE + TILE_GAP;
+  const sheet = new cv.Mat(
+    rows * step + TILE_GAP,
+    cols * step + TILE_GAP,
+    cv.CV_8UC3,
+    [SHEET_BACKGROUND, SHEET_BACKGROUND, SHEET_BACKGROUND]
+  );
+
+  stickers.forEach((buffer, i) => {
+    const tile = cv
+      .imdecode(buffer, cv.IMREAD_UNCHANGED)
+      .resize(TILE_SIZE, TILE_SIZE, 0, 0, cv.INTER_AREA);
+    const x = TILE_GAP + (i % cols) * step;
+    const y = TILE_GAP + Math.floor(i / cols) * step;
+    flatten(tile).copyTo(
+      sheet.getRegion(new cv.Rect(x, y, TILE_SIZE, TILE_SIZE))
+    );
+    sheet.putText(
+      String(i + 1),
+      new cv.Point2(x + 6, y + 28),
+      cv.FONT_HERSHEY_SIMPLEX,
+      0.9,
+      new cv.Vec3(0, 0, 200),
+      2,
+      cv.LINE_AA
+    );
+  });
+  return cv.imencode(".jpg", sheet);
+}
+
+/** Draws a BGRA tile over the sheet background. */
+function flatten(tile: cv.Mat): cv.Mat {
+  if (tile.channels !== 4) return tile;
+  const [B, G, R, A] = tile
+    .splitChannels()
+    .map((channel) => channel.convertTo(cv.CV_32FC1));
+  const rest = A.mul(-1 / 255).add(new cv.Mat(A.rows, A.cols, cv.CV_32FC1, 1));
+  // Crop colors are already multiplied by their alpha
+  const background = rest.mul(SHEET_BACKGROUND);
+  return new cv.Mat(
+    [B, G, R].map((channel) => channel.add(background).convertTo(cv.CV_8UC1))
+  );
+}
+
+// --- Persistence ---
+
+/**
+ * Keeps pending reviews on disk so the inline keyboards keep working after a
+ * restart. Crops themselves are not stored, they are sliced again on demand.
+ */
+export class ReviewStore {
+  private reviews: Record<string, IReview> = {};
+
+  async load(): Promise<void> {
+    try {
+      const file = await fs.readFile(REVIEWS_FILE_PATH, "utf8");
+      const data = JSON.parse(file);
+      this.reviews = data && typeof data === "object" ? data : {};
+      for (const review of Object.values(this.reviews)) {
+        // Saved before tasks were normalized
+        const legacy = review as IReview & { payload?: IPayload };
+        if (legacy.payload) review.task = toTask(legacy.payload);
+        delete legacy.payload;
+      }
+      console.log(
+        `Loaded ${Object.keys(this.reviews).length} pending reviews.`
+      );
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read or parse ${REVIEWS_FILE_PATH}, starting fresh. Error: ${error.message}`
+        );
+      }
+      this.reviews = {};
+    }
+  }
+
+  async save(): Promise<void> {
+    try {
+      await fs.writeFile(
+        REVIEWS_FILE_PATH,
+        JSON.stringify(this.reviews),
+        "utf8"
+      );
+    } catch (error) {
+      console.error(`Failed to write ${REVIEWS_FILE_PATH}:`, error);
+    }
+  }
+
+  get(id: string): IReview | undefined {
+    return this.reviews[id];
+  }
+
+  findByTask(taskId: string): IReview | undefined {
+    return Object.values(this.reviews).find((r) => r.task.id === taskId);
+  }
+
+  async set(review: IReview): Promise<void> {
+    this.reviews[review.id] = review;
+    await this.save();
+  }
+
+  async delete(id: string): Promise<void> {
+    delete this.reviews[id];
+    await this.save();
+  }
+
+  expired(now = Date.now()): IReview[] {
+    return Object.values(this.reviews).filter((r) => r.expiresAt <= now);
+  }
+}
@@ -0,0 +1,304 @@
+import fs from "fs/promises";
+import path from "path";
+import { IResponse, TaskStatus, TaskType } from "./types";
+import { statePath } from "./paths";
+
+// --- Constants ---
+const DRIFT_FILE_PATH = statePath("schema-drift.json");
+const DRIFT_DIR = statePath("drift"); // Raw payloads, for debugging
+
+// --- Interfaces ---
+type FieldKind = "string" | "number" | "boolean" | "object" | "array" | "any";
+
+interface IFieldSpec {
+  kind: FieldKind;
+  nullable?: boolean;
+  optional?: boolean; // May be missing entirely
+  // The surrounding object is unusable without this field and gets dropped
+  required?: boolean;
+  values?: readonly string[]; // Known values of a string field
+  fields?: Schema; // Shape of an object, or of every array element
+}
+
+type Schema = Record<string, IFieldSpec>;
+
+export interface ISchemaIssue {
+  path: string; // e.g. `data[].payload.generations[].url`
+  expected: string;
+  actual: string;
+}
+
+// --- Schemas ---
+// Mirror the fields of types.ts the bot actually reads. Fields not listed here
+// are ignored, so new fields in the API never cause alerts.
+
+const ENCODING_SCHEMA: Schema = {
+  path: { kind: "string", nullable: true },
+  size: { kind: "number", nullable: true, optional: true },
+  width: { kind: "number", nullable: true, optional: true },
+  height: { kind: "number", nullable: true, optional: true },
+  duration_secs: { kind: "number", nullable: true, optional: true },
+};
+
+// Smaller renditions and the preview, only used for videos
+const OPTIONAL_ENCODING: IFieldSpec = {
+  kind: "object",
+  nullable: true,
+  optional: true,
+  fields: ENCODING_SCHEMA,
+};
+
+const GENERATION_SCHEMA: Schema = {
+  id: { kind: "string", required: true },
+  url: { kind: "string", nullable: true },
+  title: { kind: "string", nullable: true, optional: true },
+  width: { kind: "number", optional: true },
+  height: { kind: "number", optional: true },
+  seed: { kind: "number", nullable: true, optional: true },
+  encodings: {
+    kind: "object",
+    nullable: true,
+    fields: {
+      source: { kind: "object", nullable: true, fields: ENCODING_SCHEMA },
+      md: OPTIONAL_ENCODING,
+      ld: OPTIONAL_ENCODING,
+      thumbnail: OPTIONAL_ENCODING,
+    },
+  },
+};
+
+const PAYLOAD_SCHEMA: Schema = {
+  id: { kind: "string", required: true },
+  status: {
+    kind: "string",
+    required: true,
+    values: Object.values(TaskStatus),
+  },
+  type: { kind: "string", required: true, values: Object.values(TaskType) },
+  title: { kind: "string", nullable: true },
+  prompt: { kind: "string", nullable: true },
+  model: { kind: "string", nullable: true, optional: true },
+  preset_id: { kind: "any", nullable: true, optional: true },
+  progress_pct: { kind: "number", nullable: true },
+  progress_pos_in_queue: { kind: "number", nullable: true },
+  estimated_queue_wait_time: { kind: "number", nullable: true },
+  queue_status_message: { kind: "string", nullable: true },
+  n_variants: { kind: "number" },
+  num_unsafe_generations: { kind: "number" },
+  failure_reason: { kind: "string", nullable: true },
+  needs_user_review: { kind: "boolean" },
+  moderation_result: {
+    kind: "object",
+    nullable: true,
+    fields: {
+      is_output_rejection: { kind: "boolean" },
+      code: { kind: "any", nullable: true },
+    },
+  },
+  actions: { kind: "object", nullable: true },
+  generations: {
+    kind: "array",
+    nullable: true,
+    optional: true,
+    fields: GENERATION_SCHEMA,
+  },
+};
+
+const RESPONSE_SCHEMA: Schema = {
+  data: {
+    kind: "array",
+    required: true,
+    fields: {
+      ordering_key: { kind: "number" },
+      payload: { kind: "object", required: true, fields: PAYLOAD_SCHEMA },
+    },
+  },
+  last_id: { kind: "string", nullable: true, required: true },
+  has_more: { kind: "boolean", optional: true },
+};
+
+// --- Validation ---
+
+function kindOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function describeSpec(spec: IFieldSpec): string {
+  return spec.nullable ? `${spec.kind} or null` : spec.kind;
+}
+
+/**
+ * Checks an object against a schema, collecting every mismatch. Arrays are
+ * filtered in place: elements missing a required field are dropped so the
+ * rest of the batch can still be processed.
+ * @returns false when a required field of this object is missing or broken.
+ */
+function validateObject(
+  obj: Record<string, unknown>,
+  schema: Schema,
+  prefix: string,
+  issues: ISchemaIssue[]
+): boolean {
+  let usable = true;
+  for (const [key, spec] of Object.entries(schema)) {
+    const fieldPath = prefix ? `${prefix}.${key}` : key;
+    const value = obj[key];
+    const actual = kindOf(value);
+    const fail = (expected: string, found: string) => {
+      issues.push({ path: fieldPath, expected, actual: found });
+      if (spec.required) usable = false;
+    };
+
+    if (value === undefined) {
+      if (!spec.optional) fail(describeSpec(spec), "missing");
+      continue;
+    }
+    if (value === null) {
+      if (!spec.nullable) fail(describeSpec(spec), "null");
+      continue;
+    }
+    if (spec.kind !== "any" && actual !== spec.kind) {
+      fail(describeSpec(spec), actual);
+      continue;
+    }
+
+    if (spec.values && !spec.values.includes(value as string)) {
+      // Unknown values are reported, but the field is still usable
+      issues.push({
+        path: fieldPath,
+        expected: `one of ${spec.values.join(", ")}`,
+        actual: JSON.stringify(value),
+      });
+    }
+    if (!spec.fields) continue;
+    if (Array.isArray(value)) {
+      obj[key] = value.filter((item) => {
+        if (kindOf(item) === "object") {
+          return validateObject(item, spec.fields!, `${fieldPath}[]`, issues);
+        }
+        issues.push({
+          path: `${fieldPath}[]`,
+          expected: "object",
+          actual: kindOf(item),
+        });
+        return false;
+      });
+    } else if (
+      !validateObject(
+        value as Record<string, unknown>,
+        spec.fields,
+        fieldPath,
+        issues
+      ) &&
+      spec.required
+    ) {
+      usable = false;
+    }
+  }
+  return usable;
+}
+
+/**
+ * Validates a raw notif API response leniently: unknown fields are ignored,
+ * broken items are dropped and every mismatch is returned as an issue.
+ * @returns The usable part of the response, or undefined if nothing is usable.
+ */
+export function parseResponse(raw: unknown): {
+  response?: IResponse;
+  issues: ISchemaIssue[];
+} {
+  const issues: ISchemaIssue[] = [];
+  if (kindOf(raw) !== "object") {
+    issues.push({ path: "", expected: "object", actual: kindOf(raw) });
+    return { issues };
+  }
+  // Validate a copy, the raw payload is kept as is for the drift report
+  const copy = structuredClone(raw) as Record<string, unknown>;
+  const usable = validateObject(copy, RESPONSE_SCHEMA, "", issues);
+
+  // One issue per path and shape, not one per item
+  const unique = new Map(
+    issues.map((issue) => [
+      `${issue.path}|${issue.expected}|${issue.actual}`,
+      issue,
+    ])
+  );
+  return {
+    response: usable ? (copy as unknown as IResponse) : undefined,
+    issues: [...unique.values()],
+  };
+}
+
+export function formatSchemaIssue(issue: ISchemaIssue): string {
+  return `${issue.path || "(response)"}: expected ${issue.expected}, got ${
+    issue.actual
+  }`;
+}
+
+// --- Drift Monitor ---
+
+/**
+ * Remembers which schema issues were already reported, so every change in
+ * the API is alerted once and not on every poll.
+ */
+export class DriftMonitor {
+  private reported = new Set<string>();
+
+  async load(): Promise<void> {
+    try {
+      const file = await fs.readFile(DRIFT_FILE_PATH, "utf8");
+      const data = JSON.parse(file);
+      this.reported = new Set(Array.isArray(data) ? data : []);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read or parse ${DRIFT_FILE_PATH}, starting fresh. Error: ${error.message}`
+        );
+      }
+      this.reported = new Set();
+    }
+  }
+
+  /**
+   * Filters out issues that were reported before. When new ones remain, the
+   * raw response is saved to the drift folder for debugging.
+   * @returns The new issues and the file the raw response was saved to.
+   */
+  async check(
+    issues: ISchemaIssue[],
+    raw: unknown
+  ): Promise<{ issues: ISchemaIssue[]; file?: string }> {
+    const fresh = issues.filter(
+      (issue) => !this.reported.has(formatSchemaIssue(issue))
+    );
+    if (!fresh.length) return { issues: [] };
+
+    let file: string | undefined;
+    try {
+      await fs.mkdir(DRIFT_DIR, { recursive: true });
+      file = path.join(DRIFT_DIR, `${Date.now()}.json`);
+      await fs.writeFile(
+        file,
+        JSON.stringify({ issues: fresh, raw }, null, 2),
+        "utf8"
+      );
+    } catch (error) {
+      console.error(`Failed to save the drifted payload:`, error);
+      file = undefined;
+    }
+
+    for (const issue of fresh) this.reported.add(formatSchemaIssue(issue));
+    try {
+      await fs.writeFile(
+        DRIFT_FILE_PATH,
+        JSON.stringify([...this.reported], null, 2),
+        "utf8"
+      );
+    } catch (error) {
+      console.error(`Failed to write ${DRIFT_FILE_PATH}:`, error);
+    }
+    return { issues: fresh, file };
+  }
+}
@@ -0,0 +1,125 @@
+import { IBoundingBox } from "./quality";
+
+// --- Constants ---
+export const SLICE_MODES = ["grid", "segment"] as const;
+// Pieces closer than this share of the bigger one's longest side belong
+// together, e.g. a stem above a cherry or a speech bubble next to a cat
+const MERGE_GAP_RATIO = 0.08;
+// Groups smaller than this share of the biggest one are specks, not stickers
+const SPECK_AREA_RATIO = 0.05;
+
+// --- Interfaces ---
+/**
+ * - `grid`: cut the sheet into rows and columns, at the gutters found between
+ *   them (a forced layout is cut evenly)
+ * - `segment`: find every sticker on its own, for uneven or offset sheets
+ */
+export type SliceMode = (typeof SLICE_MODES)[number];
+
+export interface IComponent {
+  bbox: IBoundingBox;
+  area: number; // Opaque px
+}
+
+export interface IStickerInstance {
+  bbox: IBoundingBox; // Union rect of its pieces
+  area: number;
+  pieces: number[]; // Indices of the merged components
+  row: number; // Position in reading order
+  col: number;
+}
+
+export interface ISegmentation {
+  instances: IStickerInstance[]; // Row by row, left to right
+  specks: number[]; // Indices of the components left out
+  rows: number;
+  cols: number; // Most stickers in a single row
+}
+
+export function parseSliceMode(
+  text: string | undefined
+): SliceMode | undefined {
+  const mode = text?.trim().toLowerCase();
+  return SLICE_MODES.find((known) => known === mode);
+}
+
+/** Distance between the closest edges of two rects, 0 when they touch. */
+function gapBetween(a: IBoundingBox, b: IBoundingBox): number {
+  const dx = Math.max(0, b.x - (a.x + a.width), a.x - (b.x + b.width));
+  const dy = Math.max(0, b.y - (a.y + a.height), a.y - (b.y + b.height));
+  return Math.hypot(dx, dy);
+}
+
+function unionRect(rects: IBoundingBox[]): IBoundingBox {
+  const x0 = Math.min(...rects.map((r) => r.x));
+  const y0 = Math.min(...rects.map((r) => r.y));
+  const x1 = Math.max(...rects.map((r) => r.x + r.width));
+  const y1 = Math.max(...rects.map((r) => r.y + r.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+}
+
+/**
+ * Groups the connected components of a sheet into sticker instances without
+ * assuming a grid. Pieces near a bigger one are merged into it, tiny groups
+ * far from everything are kept out as specks, and the stickers are ordered
+ * row by row: a sticker joins a row when its center lies within the height
+ * of the row's topmost sticker, so offset rows still read left to right.
+ */
+export function groupComponents(components: IComponent[]): ISegmentation {
+  // Union-find over the pieces
+  const parent = components.map((_, i) => i);
+  const find = (i: number): number =>
+    parent[i] === i ? i : (parent[i] = find(parent[i]));
+  components.forEach((a, i) => {
+    components.forEach((b, j) => {
+      if (j <= i) return;
+      const bigger = a.area >= b.area ? a : b;
+      const reach =
+        Math.max(bigger.bbox.width, bigger.bbox.height) * MERGE_GAP_RATIO;
+      if (gapBetween(a.bbox, b.bbox) <= reach) parent[find(j)] = find(i);
+    });
+  });
+
+  const groups = new Map<number, number[]>();
+  components.forEach((_, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+  const candidates = [...groups.values()].map((pieces) => ({
+    pieces,
+    bbox: unionRect(pieces.map((i) => components[i].bbox)),
+    area: pieces.reduce((sum, i) => sum + components[i].area, 0),
+  }));
+  const largest = Math.max(0, ...candidates.map((group) => group.area));
+  const kept = candidates.filter(
+    (group) => group.area >= largest * SPECK_AREA_RATIO
+  );
+  const specks = candidates
+    .filter((group) => !kept.includes(group))
+    .flatMap((group) => group.pieces);
+
+  // Reading order
+  const centerY = (group: (typeof kept)[number]) =>
+    group.bbox.y + group.bbox.height / 2;
+  const rows: (typeof kept)[] = [];
+  let rowBottom = -1; // Of the first, topmost sticker of the current row
+  for (const group of [...kept].sort((a, b) => centerY(a) - centerY(b))) {
+    if (centerY(group) > rowBottom) {
+      rows.push([]);
+      rowBottom = group.bbox.y + group.bbox.height;
+    }
+    rows[rows.length - 1].push(group);
+  }
+
+  const instances = rows.flatMap((row, rowIdx) =>
+    row
+      .sort((a, b) => a.bbox.x - b.bbox.x)
+      .map((group, col) => ({ ...group, row: rowIdx, col }))
+  );
+  return {
+    instances,
+    specks,
+    rows: rows.length,
+    cols: Math.max(0, ...rows.map((row) => row.length)),
+  };
+}
@@ -0,0 +1,351 @@
+import fs from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import * as cv from "opencv4nodejs";
+import {
+  decodeImage,
+  fitToCanvas,
+  ISliceResult,
+  normalizeSticker,
+  sliceStickers,
+} from "./cv";
+import {
+  BACKGROUND_STRATEGIES,
+  BackgroundStrategy,
+  IBackgroundOptions,
+  parseKeyColor,
+} from "./background";
+import { applyStickerStyle, IStickerStyle, parseStickerStyle } from "./style";
+import { formatGridLayout, IGridLayout, parseGridLayout } from "./grid";
+import {
+  DEFAULT_MIN_CROP_SCORE,
+  IBoundingBox,
+  ICropReport,
+  summarizeCropQuality,
+} from "./quality";
+import { parseSliceMode, SLICE_MODES, SliceMode } from "./segment";
+
+// --- Constants ---
+const STICKER_SIZE = 512;
+const IMAGE_EXTENSIONS = new Set([".webp", ".png", ".jpg", ".jpeg"]);
+const OUTPUT_FORMATS = ["webp", "png"] as const;
+const USAGE = `Usage: tsx slice.ts [options] <image or directory>...
+
+Slices sticker sheets locally, without Sora or Telegram.
+
+Options:
+  -o, --out <dir>        Output directory (default: slices)
+  -f, --feather <px>     Feather radius, whole px (default: 10)
+  -g, --grid <layout>    Force a grid layout like 4x4 or 2x3 instead of
+                         detecting it from the gutters
+  -m, --mode <mode>      grid or segment (default: grid). segment finds the
+                         stickers without a grid, for uneven sheets, and
+                         prints how the grid would have sliced them
+      --format <fmt>     Output format: webp or png (default: webp)
+      --margin <px>      Padding around each sticker on its canvas (default: 0)
+      --bg <strategy>    Background removal for images without transparency:
+                         flood, corner, median or chroma (default: flood)
+      --tolerance <n>    Per-channel background color tolerance
+      --key <color>      Chroma key color, e.g. green or #00ff00
+      --style <style>    Sticker style, e.g. diecut-shadow or
+                         "outline=12 shadow=0.5 tint=#ff8800:0.3"
+  -h, --help             Show this message`;
+
+// --- Interfaces ---
+type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+interface ICliOptions {
+  out: string;
+  featherPx: number;
+  layout?: IGridLayout;
+  mode: SliceMode;
+  format: OutputFormat;
+  margin: number;
+  background: IBackgroundOptions;
+  style?: IStickerStyle;
+}
+
+interface IManifestSticker {
+  file: string;
+  index: number;
+  row: number;
+  col: number;
+  bbox: IBoundingBox;
+  width: number;
+  height: number;
+  bytes: number;
+  quality: ICropReport;
+}
+
+interface IManifest {
+  source: string;
+  width: number;
+  height: number;
+  mode: SliceMode;
+  layout: string; // Rows found and widest row in segment mode
+  rows: number;
+  cols: number;
+  detected: boolean;
+  featherPx: number;
+  background: BackgroundStrategy;
+  format: OutputFormat;
+  stickers: IManifestSticker[];
+  emptyCells: number[]; // Indices of the cells without a subject
+  specks?: number; // Stray pieces left out in segment mode
+}
+
+// --- Helpers ---
+
+function parseNumber(name: string, value: string | undefined) {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`--${name} expects a non-negative number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/** Blur kernels need whole radii, 2.5 would make an even kernel size. */
+function parseWholeNumber(name: string, value: string | undefined) {
+  const parsed = parseNumber(name, value);
+  if (parsed !== undefined && !Number.isInteger(parsed)) {
+    throw new Error(`--${name} expects a whole number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseCliArgs(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: "string", short: "o", default: "slices" },
+      feather: { type: "string", short: "f" },
+      grid: { type: "string", short: "g" },
+      mode: { type: "string", short: "m", default: "grid" },
+      format: { type: "string", default: "webp" },
+      margin: { type: "string" },
+      bg: { type: "string", default: "flood" },
+      tolerance: { type: "string" },
+      key: { type: "string" },
+      style: { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  if (!OUTPUT_FORMATS.includes(values.format as OutputFormat)) {
+    throw new Error(
+      `--format must be one of ${OUTPUT_FORMATS.join(", ")}, got "${
+        values.format
+      }"`
+    );
+  }
+
+  const layout = parseGridLayout(values.grid);
+  if (values.grid && !layout) {
+    throw new Error(`--grid expects a layout like 3x3, got "${values.grid}"`);
+  }
+
+  const mode = parseSliceMode(values.mode);
+  if (!mode) {
+    throw new Error(
+      `--mode must be one of ${SLICE_MODES.join(", ")}, got "${values.mode}"`
+    );
+  }
+
+  const strategy = values.bg as IBackgroundOptions["strategy"];
+  if (!BACKGROUND_STRATEGIES.includes(strategy!)) {
+    throw new Error(
+      `--bg must be one of ${BACKGROUND_STRATEGIES.join(", ")}, got "${
+        values.bg
+      }"`
+    );
+  }
+  const keyColor = parseKeyColor(values.key);
+  if (values.key && !keyColor) {
+    throw new Error(`--key expects a color like green or #00ff00`);
+  }
+
+  const style = parseStickerStyle(values.style);
+  if (values.style && !style) {
+    throw new Error(`--style could not be parsed: "${values.style}"`);
+  }
+
+  const options: ICliOptions = {
+    out: values.out!,
+    featherPx: parseWholeNumber("feather", values.feather) ?? 10,
+    layout,
+    mode,
+    format: values.format as OutputFormat,
+    margin: parseNumber("margin", values.margin) ?? 0,
+    background: {
+      strategy,
+      tolerance: parseNumber("tolerance", values.tolerance),
+      keyColor,
+    },
+    style,
+  };
+  return { options, inputs: positionals, help: values.help };
+}
+
+/** Expands directories into the image files they contain, sorted by name. */
+async function collectImages(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const stat = await fs.stat(input);
+    if (!stat.isDirectory()) {
+      files.push(input);
+      continue;
+    }
+    const entries = await fs.readdir(input, { withFileTypes: true });
+    files.push(
+      ...entries
+        .filter(
+          (entry) =>
+            entry.isFile() &&
+            IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+        )
+        .map((entry) => path.join(input, entry.name))
+        .sort()
+    );
+  }
+  return files;
+}
+
+function encode(image: cv.Mat, options: ICliOptions) {
+  if (options.format === "png") {
+    const canvas = fitToCanvas(image, STICKER_SIZE, options.margin);
+    return {
+      buffer: cv.imencode(".png", canvas),
+      width: canvas.cols,
+      height: canvas.rows,
+    };
+  }
+  return normalizeSticker(image, {
+    size: STICKER_SIZE,
+    margin: options.margin,
+  });
+}
+
+/** Crops, crops to check and empty cells or specks of a slicing. */
+function describeSlicing(result: ISliceResult): string {
+  const low = result.crops.filter(
+    (crop) => crop.report.score < DEFAULT_MIN_CROP_SCORE
+  ).length;
+  const empty = result.reports.length - result.crops.length;
+  return [
+    result.mode === "segment"
+      ? `${result.crops.length} stickers in ${result.layout.rows} rows`
+      : `${result.crops.length} stickers from a ${formatGridLayout(
+          result.layout
+        )} grid`,
+    `${low} to check`,
+    result.mode === "segment"
+      ? `${result.specks ?? 0} specks left out`
+      : `${empty} empty cells`,
+  ].join(", ");
+}
+
+// --- Slicing ---
+
+async function sliceFile(file: string, options: ICliOptions): Promise<void> {
+  const { image: img, strategy } = decodeImage(await fs.readFile(file), {
+    ...options.background,
+    layout: options.layout,
+  });
+  const result = sliceStickers(img, {
+    featherPx: options.featherPx,
+    layout: options.layout,
+    mode: options.mode,
+  });
+  const { layout, detected, crops, reports } = result;
+
+  const outDir = path.join(options.out, path.parse(file).name);
+  await fs.mkdir(outDir, { recursive: true });
+
+  const manifest: IManifest = {
+    source: path.resolve(file),
+    width: img.cols,
+    height: img.rows,
+    mode: result.mode,
+    layout: formatGridLayout(layout),
+    rows: layout.rows,
+    cols: layout.cols,
+    detected,
+    featherPx: options.featherPx,
+    background: strategy,
+    format: options.format,
+    stickers: [],
+    emptyCells: reports
+      .filter((report) => report.issues.includes("empty"))
+      .map((report) => report.index),
+    specks: result.specks,
+  };
+
+  for (const [n, crop] of crops.entries()) {
+    const image = options.style
+      ? applyStickerStyle(crop.image, options.style)
+      : crop.image;
+    const { buffer, width, height } = encode(image, options);
+    const name = `${String(n + 1).padStart(2, "0")}.${options.format}`;
+    await fs.writeFile(path.join(outDir, name), buffer);
+    manifest.stickers.push({
+      file: name,
+      index: crop.index,
+      row: crop.row,
+      col: crop.col,
+      bbox: crop.bbox,
+      width,
+      height,
+      bytes: buffer.length,
+      quality: crop.report,
+    });
+  }
+
+  await fs.writeFile(
+    path.join(outDir, "manifest.json"),
+    JSON.stringify(manifest, null, 2),
+    "utf8"
+  );
+  console.log(
+    `${file}: ${describeSlicing(result)} (${strategy} background) -> ${outDir}`
+  );
+  const quality = summarizeCropQuality(
+    crops.map((crop) => crop.report),
+    manifest.emptyCells.length,
+    DEFAULT_MIN_CROP_SCORE
+  );
+  if (quality) console.log(`  ${quality}`);
+  if (options.mode === "segment") {
+    const grid = sliceStickers(img, {
+      featherPx: options.featherPx,
+      layout: options.layout,
+    });
+    console.log(`  grid mode: ${describeSlicing(grid)}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const { options, inputs, help } = parseCliArgs(process.argv.slice(2));
+  if (help || inputs.length === 0) {
+    console.log(USAGE);
+    process.exit(help ? 0 : 1);
+  }
+
+  const files = await collectImages(inputs);
+  let failed = 0;
+  for (const file of files) {
+    try {
+      await sliceFile(file, options);
+    } catch (error: any) {
+      failed++;
+      console.error(`Failed to slice ${file}: ${error.message}`);
+    }
+  }
+  if (failed) process.exit(1);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
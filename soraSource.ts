@@ -0,0 +1,655 @@
+import {
+  IEncodings,
+  IGeneration,
+  IPayload,
+  IResponse,
+  ISource,
+  TaskStatus,
+  TaskType,
+} from "./types";
+import {
+  IGenerationSource,
+  IRendition,
+  isActiveStatus,
+  ITask,
+  ITaskOutput,
+  ITaskSink,
+} from "./source";
+import type { TaskStore } from "./taskStore";
+import type { BotMetrics } from "./metrics";
+import {
+  DriftMonitor,
+  formatSchemaIssue,
+  ISchemaIssue,
+  parseResponse,
+} from "./schema";
+import {
+  CredentialStore,
+  Headers,
+  isAuthFailure,
+  parseHeadersSnippet,
+} from "./credentials";
+import { escapeHtml } from "./html";
+
+// --- Constants ---
+export const SORA_SOURCE_NAME = "sora";
+const API_BASE_URL =
+  process.env.SORA_API_URL || "https://sora.chatgpt.com/backend/notif";
+const TASK_PAGE_URL = "https://sora.com/t/";
+const FETCH_LIMIT = 100;
+const MAX_CATCH_UP_PAGES = 50; // Safety net against a feed that never ends
+const DEFAULT_BACKLOG_LIMIT = FETCH_LIMIT;
+const MIN_FETCH_INTERVAL_SECONDS = 5;
+// Below 1 polls faster than the intervals say, the tests use this
+const POLL_INTERVAL_SCALE = Number(process.env.POLL_INTERVAL_SCALE) || 1;
+const DEFAULT_INTERVALS = {
+  QUEUED: 15,
+  RUNNING: 10,
+  RECENT_GENERATION: 25, // < 2 mins
+  MEDIUM_TERM_GENERATION: 50, // < 5 mins
+  LONG_TERM_GENERATION: 120, // < 30 mins
+  IDLE: 600, // > 30 mins
+};
+const MAX_DRIFT_ISSUES_SHOWN = 15;
+// Back-off while the Sora session is expired, doubling up to the maximum
+const AUTH_BACKOFF_SECONDS = { INITIAL: 60, MAX: 3600 };
+// Unhealthy once no fetch succeeded for this long, a few idle intervals
+const DEFAULT_HEALTH_MAX_FETCH_AGE_SECONDS = DEFAULT_INTERVALS.IDLE * 3;
+
+// --- Interfaces ---
+interface IFetchParams {
+  before?: string; // Newer than this notification
+  after?: string; // Older than this notification
+}
+
+function toFiniteNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value != null && Number.isFinite(number) ? number : undefined;
+}
+
+/** Size, dimensions and the smaller renditions of a video generation. */
+function getVideoDetails(gen: IGeneration): Partial<ITaskOutput> {
+  const encodings = gen.encodings as Partial<IEncodings> | null;
+  const toRendition = (
+    encoding: Partial<ISource> | null | undefined
+  ): Omit<IRendition, "url"> => ({
+    size: toFiniteNumber(encoding?.size),
+    width: toFiniteNumber(encoding?.width),
+    height: toFiniteNumber(encoding?.height),
+    durationSecs: toFiniteNumber(encoding?.duration_secs),
+  });
+  const source = toRendition(encodings?.source);
+  const smaller: IRendition[] = [];
+  for (const encoding of [encodings?.md, encodings?.ld]) {
+    if (encoding?.path) {
+      smaller.push({ url: encoding.path, ...toRendition(encoding) });
+    }
+  }
+  return {
+    ...source,
+    width: source.width ?? toFiniteNumber(gen.width),
+    height: source.height ?? toFiniteNumber(gen.height),
+    smaller: smaller.length ? smaller : undefined,
+    thumbnailUrl: encodings?.thumbnail?.path || undefined,
+  };
+}
+
+/**
+ * Normalizes a notif payload. Image tasks are sliced from the source encoding
+ * of every generation, video tasks send the generation URL.
+ */
+export function toTask(payload: IPayload): ITask {
+  const isImage = payload.type === TaskType.imageGen;
+  const outputs: ITaskOutput[] = [];
+  for (const gen of payload.generations ?? []) {
+    const url = isImage ? gen.encodings?.source?.path : gen.url;
+    if (!url) {
+      console.warn(
+        `Skipping generation ${gen.id} of task ${payload.id}: Missing ${
+          isImage ? "source path" : "video URL"
+        }.`
+      );
+      continue;
+    }
+    outputs.push({
+      id: gen.id,
+      url,
+      title: gen.title || undefined,
+      seed: toFiniteNumber(gen.seed),
+      width: toFiniteNumber(gen.width),
+      height: toFiniteNumber(gen.height),
+      ...(isImage ? {} : getVideoDetails(gen)),
+    });
+  }
+
+  const moderation = payload.moderation_result;
+  const reason = payload.failure_reason as unknown;
+  return {
+    id: payload.id,
+    source: SORA_SOURCE_NAME,
+    status: payload.status,
+    type: payload.type,
+    title: payload.title || undefined,
+    prompt: typeof payload.prompt === "string" ? payload.prompt : undefined,
+    link: `${TASK_PAGE_URL}${payload.id}`,
+    model: payload.model || undefined,
+    presetId: payload.preset_id != null ? String(payload.preset_id) : undefined,
+    createdAt: Date.parse(payload.created_at) || undefined,
+    progress: toFiniteNumber(payload.progress_pct),
+    queuePosition: toFiniteNumber(payload.progress_pos_in_queue),
+    queueWaitSecs: toFiniteNumber(payload.estimated_queue_wait_time),
+    queueMessage:
+      typeof payload.queue_status_message === "string"
+        ? payload.queue_status_message
+        : undefined,
+    failureReason:
+      typeof reason === "string"
+        ? reason
+        : reason
+        ? JSON.stringify(reason)
+        : undefined,
+    moderated:
+      !!moderation && (moderation.is_output_rejection || !!moderation.code),
+    moderationCode: moderation?.code ? String(moderation.code) : undefined,
+    variants: payload.n_variants || undefined,
+    unsafeVariants: payload.num_unsafe_generations || undefined,
+    needsReview: payload.needs_user_review || undefined,
+    outputs,
+  };
+}
+
+/**
+ * Polls the Sora notif feed. The interval adapts to what is going on: fast
+ * while tasks are queued or running, slowing down the longer nothing was
+ * generated, and backing off while the session is rejected.
+ */
+export class SoraSource implements IGenerationSource {
+  readonly name = SORA_SOURCE_NAME;
+  private sink?: ITaskSink;
+  private lastGenerationTime?: number;
+  private lastFetchAt?: number; // Last successful request to the notif API
+  private readonly startedAt = Date.now();
+  private isFetching = false;
+  private fetchTimeoutId?: NodeJS.Timeout;
+  private nextFetchAt?: number;
+  private paused = false;
+  private activeStatuses: TaskStatus[] = []; // Unfinished tasks of the last batch
+  private authFailure?: { status: number; since: number; backoff: number };
+  private readonly drift = new DriftMonitor();
+  private readonly credentials = new CredentialStore();
+  private readonly backlogLimit: number;
+  private readonly skipBacklog: boolean;
+  private readonly maxFetchAgeMs: number;
+
+  /** @param hasHeadersCommand Whether the owner can send /headers. */
+  constructor(
+    private readonly tasks: TaskStore,
+    private readonly metrics: BotMetrics,
+    private readonly hasHeadersCommand: boolean
+  ) {
+    // Only apply on first start, when there's no cursor yet
+    this.backlogLimit =
+      Number(process.env.BACKLOG_LIMIT) || DEFAULT_BACKLOG_LIMIT;
+    this.skipBacklog = process.env.SKIP_BACKLOG === "true";
+    this.maxFetchAgeMs =
+      (Number(process.env.HEALTH_MAX_FETCH_AGE_SECONDS) ||
+        DEFAULT_HEALTH_MAX_FETCH_AGE_SECONDS * POLL_INTERVAL_SCALE) * 1000;
+  }
+
+  async start(sink: ITaskSink): Promise<void> {
+    this.sink = sink;
+    await this.drift.load();
+    await this.credentials.load();
+    this.credentials.watch(() => this.onHeadersChanged());
+    this.fetchAndProcessNotifications();
+  }
+
+  stop(): void {
+    if (this.fetchTimeoutId) {
+      clearTimeout(this.fetchTimeoutId);
+    }
+    this.credentials.close();
+  }
+
+  pause(): void {
+    this.paused = true;
+    if (this.fetchTimeoutId) clearTimeout(this.fetchTimeoutId);
+    delete this.nextFetchAt;
+  }
+
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.scheduleNextFetch();
+  }
+
+  async poll(): Promise<void> {
+    if (this.fetchTimeoutId) clearTimeout(this.fetchTimeoutId);
+    await this.fetchAndProcessNotifications();
+  }
+
+  /** Looks among the latest notifications. */
+  async find(taskId: string): Promise<ITask | undefined> {
+    const response = await this.fetchNotifications({});
+    const payload = response?.data.find(
+      (item) => item.payload?.id === taskId
+    )?.payload;
+    return payload && toTask(payload);
+  }
+
+  getStatusLines(): string[] {
+    const nextFetch = this.isFetching
+      ? "in progress"
+      : this.paused
+      ? "paused"
+      : this.nextFetchAt
+      ? `in ${Math.max(0, Math.round((this.nextFetchAt - Date.now()) / 1000))}s`
+      : "not scheduled";
+    return [
+      `<b>Next fetch:</b> ${nextFetch} (interval ${this.getNextInterval()}s)`,
+      `<b>Sora session:</b> ${
+        this.authFailure
+          ? `rejected with ${this.authFailure.status} since ${new Date(
+              this.authFailure.since
+            ).toISOString()}`
+          : "ok"
+      }`,
+      `<b>Cursor:</b> <code>${escapeHtml(
+        this.tasks.getCursor() ?? "none"
+      )}</code>`,
+    ];
+  }
+
+  /**
+   * Unhealthy while the session is rejected or when no fetch succeeded for
+   * HEALTH_MAX_FETCH_AGE_SECONDS. Polling paused by the owner is healthy.
+   */
+  getHealthIssues(): string[] {
+    const issues: string[] = [];
+    if (this.authFailure) {
+      issues.push(`Sora session rejected with ${this.authFailure.status}`);
+    }
+    const fetchAge = Date.now() - (this.lastFetchAt ?? this.startedAt);
+    if (!this.paused && fetchAge > this.maxFetchAgeMs) {
+      issues.push(
+        `No successful fetch for ${Math.round(fetchAge / 1000)} seconds`
+      );
+    }
+    return issues;
+  }
+
+  /**
+   * Replaces the Sora headers with ones pasted by the owner. They are only
+   * saved after a test request with them succeeded.
+   */
+  async updateHeaders(text: string): Promise<string> {
+    const headers = parseHeadersSnippet(text);
+    if (!headers) {
+      return 'No headers found. Paste a JSON object, a "Copy as fetch" snippet or Name: value lines.';
+    }
+    const status = await this.testHeaders(headers);
+    if (status !== 200) {
+      return `Sora rejected these headers (${
+        status || "network error"
+      }), nothing was saved.`;
+    }
+    await this.credentials.save(headers);
+    this.onHeadersChanged();
+    return `Saved ${Object.keys(headers).length} headers, polling again.`;
+  }
+
+  // --- Fetching Logic ---
+
+  private scheduleNextFetch(): void {
+    if (this.fetchTimeoutId) {
+      clearTimeout(this.fetchTimeoutId); // Clear existing timeout
+    }
+    if (this.isFetching) return; // Don't schedule if already fetching
+    if (this.paused) {
+      console.log("Polling is paused, not scheduling a fetch.");
+      return;
+    }
+
+    const intervalSeconds = this.getNextInterval() * POLL_INTERVAL_SCALE;
+    console.log(`Scheduling next fetch in ${intervalSeconds} seconds.`);
+    this.nextFetchAt = Date.now() + intervalSeconds * 1000;
+    this.fetchTimeoutId = setTimeout(
+      () => this.fetchAndProcessNotifications(),
+      intervalSeconds * 1000
+    );
+  }
+
+  private getNextInterval(): number {
+    if (this.authFailure) return this.authFailure.backoff; // Nothing to see until fixed
+    let interval: number;
+    switch (this.getMostActiveStatus()) {
+      case TaskStatus.queued:
+        interval = DEFAULT_INTERVALS.QUEUED;
+        break;
+      case TaskStatus.running:
+        interval = DEFAULT_INTERVALS.RUNNING;
+        break;
+      default: // succeeded, failed, or undefined
+        interval = this.getIdleInterval();
+    }
+    // Optional: Add jitter
+    // interval += Math.random() * 2 - 1; // +/- 1 second
+    return Math.max(MIN_FETCH_INTERVAL_SECONDS, interval);
+  }
+
+  /** Running beats queued: poll as fast as the busiest task needs. */
+  private getMostActiveStatus(): TaskStatus | undefined {
+    if (this.activeStatuses.includes(TaskStatus.running)) {
+      return TaskStatus.running;
+    }
+    if (this.activeStatuses.includes(TaskStatus.queued)) {
+      return TaskStatus.queued;
+    }
+    return undefined;
+  }
+
+  private getIdleInterval(): number {
+    const secondsSinceLastGen = this.lastGenerationTime
+      ? (Date.now() - this.lastGenerationTime) / 1000
+      : Infinity;
+
+    if (secondsSinceLastGen < 120) return DEFAULT_INTERVALS.RECENT_GENERATION;
+    if (secondsSinceLastGen < 300)
+      return DEFAULT_INTERVALS.MEDIUM_TERM_GENERATION;
+    if (secondsSinceLastGen < 1800)
+      return DEFAULT_INTERVALS.LONG_TERM_GENERATION;
+    return DEFAULT_INTERVALS.IDLE;
+  }
+
+  private async fetchAndProcessNotifications(): Promise<void> {
+    if (this.isFetching) {
+      console.log("Fetch already in progress, skipping.");
+      return;
+    }
+    this.isFetching = true;
+    console.log(
+      `Fetching notifications... (using cursor: ${this.tasks.getCursor()})`
+    );
+
+    try {
+      const response = await this.fetchBacklog();
+      if (!response) return; // Error handled in fetchNotifications
+
+      if (response.data.length === 0) {
+        console.log("No new notifications found.");
+      } else {
+        console.log(
+          `Processing ${response.data.length} new notifications. API's last_id: ${response.last_id}`
+        );
+      }
+      await this.processNotifications(response);
+    } catch (error) {
+      console.error("Error during notification fetch/processing:", error);
+      this.sink?.recordError(`Fetch/processing failed: ${error}`);
+      // Consider more specific error handling (e.g., network vs. processing errors)
+    } finally {
+      this.isFetching = false;
+      this.scheduleNextFetch(); // Always schedule the next attempt
+    }
+  }
+
+  /**
+   * Fetches everything newer than the cursor, paging through `has_more`
+   * until the feed is exhausted, so nothing is lost after a long downtime.
+   * Without a cursor (first start) it goes back at most BACKLOG_LIMIT
+   * notifications, or skips the backlog entirely with SKIP_BACKLOG.
+   * @returns All pages merged, newest first like a single response.
+   */
+  private async fetchBacklog(): Promise<IResponse | null> {
+    const cursor = this.tasks.getCursor();
+    if (!cursor) return this.fetchFirstStart();
+
+    let page = await this.fetchNotifications({ before: cursor });
+    if (!page) return null;
+    const data = page.data;
+    for (let pages = 1; page.has_more && pages < MAX_CATCH_UP_PAGES; pages++) {
+      const newestId = page.data[0]?.payload?.id;
+      if (!newestId) break;
+      console.log(`Catching up, fetching notifications newer than ${newestId}`);
+      const next = await this.fetchNotifications({ before: newestId });
+      if (!next) break; // Deliver what we have, the rest comes next time
+      data.unshift(...next.data);
+      page = next;
+    }
+    return { ...page, data };
+  }
+
+  private async fetchFirstStart(): Promise<IResponse | null> {
+    let page = await this.fetchNotifications({});
+    if (!page) return null;
+
+    if (this.skipBacklog) {
+      // Start from now: finished tasks are marked skipped, running ones stay
+      const finished = page.data.filter(
+        (item) =>
+          !isActiveStatus(
+            item.payload.status,
+            Date.parse(item.payload.created_at) || undefined
+          )
+      );
+      for (const item of finished)
+        await this.tasks.markSkipped(item.payload.id);
+      console.log(`Skipped a backlog of ${finished.length} notifications.`);
+      return page;
+    }
+
+    const data = page.data;
+    while (page.has_more && data.length < this.backlogLimit) {
+      const oldestId = page.last_id ?? data[data.length - 1]?.payload.id;
+      if (!oldestId) break;
+      const next = await this.fetchNotifications({ after: oldestId });
+      if (!next?.data.length) break;
+      data.push(...next.data);
+      page = next;
+    }
+    console.log(
+      `First start, delivering up to ${this.backlogLimit} of ${data.length} notifications.`
+    );
+    return { ...page, data: data.slice(0, this.backlogLimit) };
+  }
+
+  /**
+   * @param cursor Where to page from, defaults to everything newer than the
+   * stored cursor. Pass {} to get the latest notifications.
+   */
+  private async fetchNotifications(
+    cursor: IFetchParams = { before: this.tasks.getCursor() }
+  ): Promise<IResponse | null> {
+    const params = new URLSearchParams({ limit: String(FETCH_LIMIT) });
+    if (cursor.before) {
+      params.append("before", cursor.before);
+    }
+    if (cursor.after) {
+      params.append("after", cursor.after);
+    }
+
+    const apiUrl = `${API_BASE_URL}?${params.toString()}`;
+    console.log(`Requesting URL: ${apiUrl}`);
+
+    try {
+      this.metrics.fetches.inc();
+      const req = await fetch(apiUrl, { headers: this.credentials.headers });
+      if (!req.ok) this.metrics.apiErrors.inc({ status: String(req.status) });
+
+      if (isAuthFailure(req.status)) {
+        await this.handleAuthFailure(req.status);
+        return null;
+      }
+      if (this.authFailure) await this.handleAuthRestored();
+
+      if (!req.ok) {
+        const errorBody = await req
+          .text()
+          .catch(() => "Could not read error body");
+        console.error(
+          `API request failed: ${req.status} ${req.statusText}. URL: ${apiUrl}. Body: ${errorBody}`
+        );
+        this.sink?.recordError(
+          `API request failed: ${req.status} ${req.statusText}`
+        );
+        return null; // Indicate failure
+      }
+
+      const raw: unknown = await req.json();
+      const { response, issues } = parseResponse(raw);
+      if (issues.length) await this.reportSchemaDrift(issues, raw);
+      if (!response) {
+        console.warn("Received invalid response structure:", raw);
+        this.sink?.recordError("Received invalid response structure");
+        this.metrics.apiErrors.inc({ status: "invalid" });
+        return null;
+      }
+      this.lastFetchAt = Date.now();
+      return response;
+    } catch (networkError) {
+      console.error(`Network error fetching notifications: ${networkError}`);
+      this.metrics.apiErrors.inc({ status: "network" });
+      this.sink?.recordError(`Network error: ${networkError}`);
+      return null; // Indicate failure
+    }
+  }
+
+  // --- Processing Logic ---
+
+  /**
+   * Hands the batch to the sink oldest first. The cursor then moves up to
+   * the oldest task that is still queued or running, so unfinished tasks
+   * keep showing up until they are done.
+   */
+  private async processNotifications(response: IResponse): Promise<void> {
+    const tasks: ITask[] = [];
+    for (const item of response.data.slice().reverse()) {
+      if (!item.payload) {
+        console.warn("Notification item missing payload:", item);
+        continue; // Skip this item
+      }
+      tasks.push(toTask(item.payload));
+    }
+
+    // Speeds polling up again once something new is out
+    if (
+      tasks.some(
+        (task) =>
+          task.status === TaskStatus.succeeded && !this.tasks.isDone(task.id)
+      )
+    ) {
+      this.lastGenerationTime = Date.now();
+    }
+
+    await this.sink!.handleTasks({
+      source: this.name,
+      tasks,
+      complete: true, // The cursor never passes an unfinished task
+    });
+
+    const isActive = (task: ITask) =>
+      isActiveStatus(task.status, task.createdAt);
+    const latest = new Map(tasks.map((task) => [task.id, task]));
+    this.activeStatuses = [...latest.values()]
+      .filter(isActive)
+      .map((task) => task.status);
+
+    let cursor: string | undefined;
+    for (const task of tasks) {
+      if (isActive(task)) break;
+      cursor = task.id;
+    }
+    if (cursor) await this.tasks.setCursor(cursor);
+  }
+
+  // --- Session ---
+
+  /**
+   * Reports an expired session once and backs off exponentially until the
+   * headers are replaced.
+   */
+  private async handleAuthFailure(status: number): Promise<void> {
+    const message = `Sora rejected the session (${status}), update headers.json or send /headers.`;
+    console.error(message);
+    this.sink?.recordError(message);
+
+    if (this.authFailure) {
+      this.authFailure.backoff = Math.min(
+        this.authFailure.backoff * 2,
+        AUTH_BACKOFF_SECONDS.MAX
+      );
+      return;
+    }
+    this.authFailure = {
+      status,
+      since: Date.now(),
+      backoff: AUTH_BACKOFF_SECONDS.INITIAL,
+    };
+    await this.sink?.notify(
+      `🔒 <b>Sora session expired</b> (${status})\nUpdate <code>headers.json</code>${
+        this.hasHeadersCommand ? " or send fresh headers with /headers" : ""
+      }. Polling is slowed down until then.`,
+      "session expiry alert"
+    );
+  }
+
+  private async handleAuthRestored(): Promise<void> {
+    delete this.authFailure;
+    console.log("Sora session is valid again.");
+    await this.sink?.notify(
+      "🔓 Sora session restored, polling resumed.",
+      "session restored notice"
+    );
+  }
+
+  /** New headers: drop the back-off and poll right away. */
+  private onHeadersChanged(): void {
+    if (this.authFailure)
+      this.authFailure.backoff = AUTH_BACKOFF_SECONDS.INITIAL;
+    if (this.paused || this.isFetching) return;
+    if (this.fetchTimeoutId) clearTimeout(this.fetchTimeoutId);
+    this.fetchAndProcessNotifications();
+  }
+
+  /** @returns The HTTP status of a minimal request, or 0 on network errors. */
+  private async testHeaders(headers: Headers): Promise<number> {
+    try {
+      const req = await fetch(`${API_BASE_URL}?limit=1`, { headers });
+      return req.status;
+    } catch (networkError) {
+      console.error(`Network error testing headers: ${networkError}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Alerts the chat once about every field of the API that went missing or
+   * changed shape. Known issues are only logged.
+   */
+  private async reportSchemaDrift(
+    issues: ISchemaIssue[],
+    raw: unknown
+  ): Promise<void> {
+    console.warn(
+      `Notif API response doesn't match the schema:\n${issues
+        .map(formatSchemaIssue)
+        .join("\n")}`
+    );
+    const { issues: fresh, file } = await this.drift.check(issues, raw);
+    if (!fresh.length) return;
+
+    const lines = fresh
+      .slice(0, MAX_DRIFT_ISSUES_SHOWN)
+      .map((issue) => `• <code>${escapeHtml(formatSchemaIssue(issue))}</code>`);
+    if (fresh.length > MAX_DRIFT_ISSUES_SHOWN) {
+      lines.push(`…and ${fresh.length - MAX_DRIFT_ISSUES_SHOWN} more`);
+    }
+    const saved = file
+      ? `\nRaw response saved to <code>${escapeHtml(file)}</code>`
+      : "";
+    await this.sink?.notify(
+      `⚠️ <b>The Sora notif API changed shape</b>\n${lines.join("\n")}${saved}`,
+      "schema drift alert"
+    );
+  }
+}
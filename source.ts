@@ -0,0 +1,134 @@
+import fs from "fs/promises";
+import path from "path";
+import { TaskStatus, TaskType } from "./types";
+
+// --- Constants ---
+// A task in a status this bot doesn't know is waited for this long at most
+const UNKNOWN_STATUS_MAX_AGE_MS = 60 * 60 * 1000;
+
+// --- Interfaces ---
+/** A file of an output, with what the source knows about it. */
+export interface IRendition {
+  url: string; // http(s) URL or local file path
+  size?: number; // Bytes
+  width?: number;
+  height?: number;
+  durationSecs?: number; // Videos only
+}
+
+/** One generated image sheet or video of a task. */
+export interface ITaskOutput extends IRendition {
+  id: string;
+  title?: string;
+  seed?: number;
+  smaller?: IRendition[]; // Lower quality copies, largest first
+  thumbnailUrl?: string;
+}
+
+/**
+ * A generation task as the delivery pipeline sees it, whatever source it came
+ * from. Sources leave out what they don't know.
+ */
+export interface ITask {
+  id: string; // Unique across sources
+  source: string; // Name of the source that produced it, e.g. "sora"
+  status: TaskStatus;
+  type: TaskType;
+  title?: string;
+  prompt?: string; // May carry markers such as `[grid 3x3]`
+  link?: string; // Page of the task, the chat message links to it
+  model?: string;
+  presetId?: string;
+  createdAt?: number; // ms timestamp
+  progress?: number; // 0..1 while running
+  queuePosition?: number;
+  queueWaitSecs?: number;
+  queueMessage?: string;
+  failureReason?: string;
+  moderated?: boolean; // Output blocked by moderation
+  moderationCode?: string;
+  variants?: number; // Outputs asked for
+  unsafeVariants?: number; // Outputs withheld as unsafe
+  needsReview?: boolean;
+  outputs: ITaskOutput[]; // Image sheets for image tasks, clips for videos
+}
+
+export interface ITaskBatch {
+  source: string;
+  tasks: ITask[]; // Oldest first
+  // Lists every unfinished task of the source, so the progress of tasks
+  // missing from it can be cleared
+  complete: boolean;
+}
+
+/** What a source can ask of the bot. */
+export interface ITaskSink {
+  /** Delivers finished tasks and shows the progress of unfinished ones. */
+  handleTasks(batch: ITaskBatch): Promise<void>;
+  /**
+   * Posts an HTML message to the chat, e.g. an alert about the source.
+   * Failures are logged, never thrown.
+   */
+  notify(html: string, context: string): Promise<void>;
+  /** Shown as the last error in /status. */
+  recordError(message: string): void;
+}
+
+/**
+ * Somewhere tasks come from: the Sora notif feed, a watched folder... A source
+ * hands batches of normalized tasks to the sink, which slices and delivers
+ * them the same way for every source.
+ */
+export interface IGenerationSource {
+  readonly name: string;
+  start(sink: ITaskSink): Promise<void>;
+  stop(): void;
+  pause(): void;
+  resume(): void;
+  /** Checks for new tasks right away. */
+  poll(): Promise<void>;
+  /** Looks a task up, for /resend of tasks the bot no longer remembers. */
+  find?(taskId: string): Promise<ITask | undefined>;
+  /** HTML lines for /status. */
+  getStatusLines(): string[];
+  /** Why the source is unhealthy, empty when it works. */
+  getHealthIssues(): string[];
+}
+
+/**
+ * Queued or running. A status this bot doesn't know counts as active too, so
+ * new statuses are never dropped, but only for an hour after the task was
+ * created: it must not pin the cursor or a progress message forever. Without
+ * a creation time it is reported as finished right away.
+ */
+export function isActiveStatus(
+  status: TaskStatus,
+  createdAt?: number,
+  now = Date.now()
+): boolean {
+  if (status === TaskStatus.queued || status === TaskStatus.running) {
+    return true;
+  }
+  if (Object.values(TaskStatus).includes(status)) return false;
+  return !!createdAt && now - createdAt < UNKNOWN_STATUS_MAX_AGE_MS;
+}
+
+export function isRemoteUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url);
+}
+
+/** File extension of an output, guessed from its type when the URL has none. */
+export function getOutputExtension(url: string, type: TaskType): string {
+  const pathname = isRemoteUrl(url) ? new URL(url).pathname : url;
+  const extension = path.extname(pathname).toLowerCase();
+  if (/^\.\w{2,5}$/.test(extension)) return extension;
+  return type === TaskType.videoGen ? ".mp4" : ".webp";
+}
+
+/** Downloads an output, or reads it from disk for local sources. */
+export async function readOutput(url: string): Promise<Buffer> {
+  if (!isRemoteUrl(url)) return fs.readFile(url);
+  const req = await fetch(url);
+  if (!req.ok) throw new Error(`Download of ${url} failed: ${req.status}`);
+  return Buffer.from(await req.arrayBuffer());
+}
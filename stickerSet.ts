@@ -0,0 +1,145 @@
+import fs from "fs/promises";
+import { ITask } from "./source";
+import { getPromptMarker } from "./markers";
+import { statePath } from "./paths";
+
+// --- Constants ---
+const STICKER_SETS_FILE_PATH = statePath("sticker-sets.json");
+export const MAX_STICKERS_PER_SET = 120; // Telegram limit for static sets
+export const MAX_INITIAL_STICKERS = 50; // createNewStickerSet accepts 1-50 stickers
+const MAX_NAME_LENGTH = 64;
+const MAX_TITLE_LENGTH = 64;
+
+// --- Interfaces ---
+export type StickerFormat = "static" | "video";
+
+export interface IStickerSetRecord {
+  name: string;
+  title: string;
+  count: number;
+}
+
+export interface IPackTarget {
+  key: string; // Registry key, shared by every task feeding the same pack
+  base: string; // Human readable base used for set names
+  title: string;
+}
+
+/** Latin letters, digits and single underscores left of a name or title. */
+function toNameStem(text: string): string {
+  return text
+    .normalize("NFKD")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Resolves which pack a task belongs to. A `[pack name]` marker in the prompt
+ * groups tasks into one shared pack, otherwise every task gets its own.
+ * Video stickers go into separate packs since a set has a single format.
+ */
+export function getPackTarget(
+  task: ITask,
+  format: StickerFormat = "static"
+): IPackTarget {
+  const marker = getPromptMarker(task.prompt, "pack");
+  // Cyrillic, CJK or emoji-only names leave nothing for a set name, and all
+  // of them would share the same one; the task id is always usable
+  const nameable = (text?: string | null) => !!text && !!toNameStem(text);
+  const target = marker
+    ? {
+        key: `pack:${marker.toLowerCase()}`,
+        base: nameable(marker) ? marker : task.id,
+        title: marker,
+      }
+    : {
+        key: `task:${task.id}`,
+        base: nameable(task.title) ? task.title! : task.id,
+        title: task.title || `Task ${task.id}`,
+      };
+  if (format === "static") return target;
+  return {
+    key: `${target.key}:${format}`,
+    base: `${target.base} ${format}`,
+    title: target.title,
+  };
+}
+
+/**
+ * Builds a valid sticker set short name: latin letters, digits and single
+ * underscores, starting with a letter and ending in `_by_<bot username>`.
+ * @param attempt Zero for the first set, incremented for overflow sets and name collisions.
+ */
+export function buildStickerSetName(
+  base: string,
+  botUsername: string,
+  attempt = 0
+): string {
+  const suffix = `${attempt ? `_${attempt + 1}` : ""}_by_${botUsername}`;
+  let stem = toNameStem(base);
+  if (!/^[a-z]/.test(stem)) stem = `s_${stem}`.replace(/_+$/, "");
+  stem = stem.slice(0, MAX_NAME_LENGTH - suffix.length).replace(/_+$/, "");
+  return `${stem}${suffix}`;
+}
+
+export function buildStickerSetTitle(title: string, part = 1): string {
+  const suffix = part > 1 ? ` (${part})` : "";
+  return `${title.slice(0, MAX_TITLE_LENGTH - suffix.length)}${suffix}`;
+}
+
+export function getStickerSetLink(name: string): string {
+  return `https://t.me/addstickers/${name}`;
+}
+
+/**
+ * Persists which sticker sets were created for each pack, so later tasks can
+ * keep filling the same set and roll over to a new one once it is full.
+ */
+export class StickerSetRegistry {
+  private sets: Record<string, IStickerSetRecord[]> = {};
+
+  async load(): Promise<void> {
+    try {
+      const file = await fs.readFile(STICKER_SETS_FILE_PATH, "utf8");
+      const data = JSON.parse(file);
+      this.sets = data && typeof data === "object" ? data : {};
+      console.log(`Loaded ${Object.keys(this.sets).length} sticker packs.`);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read or parse ${STICKER_SETS_FILE_PATH}, starting fresh. Error: ${error.message}`
+        );
+      }
+      this.sets = {};
+    }
+  }
+
+  async save(): Promise<void> {
+    try {
+      await fs.writeFile(
+        STICKER_SETS_FILE_PATH,
+        JSON.stringify(this.sets, null, 2),
+        "utf8"
+      );
+    } catch (error) {
+      console.error(`Failed to write ${STICKER_SETS_FILE_PATH}:`, error);
+    }
+  }
+
+  /** All sets created for a pack, oldest first. */
+  getSets(key: string): IStickerSetRecord[] {
+    return this.sets[key] ?? [];
+  }
+
+  /** The newest set of a pack if it still has room for more stickers. */
+  getOpenSet(key: string): IStickerSetRecord | undefined {
+    const sets = this.getSets(key);
+    const last = sets[sets.length - 1];
+    return last && last.count < MAX_STICKERS_PER_SET ? last : undefined;
+  }
+
+  addSet(key: string, record: IStickerSetRecord): void {
+    this.sets[key] = [...this.getSets(key), record];
+  }
+}
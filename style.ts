@@ -0,0 +1,205 @@
+import * as cv from "opencv4nodejs";
+import { parseKeyColor } from "./background";
+
+// --- Interfaces ---
+export interface IStickerStyle {
+  outline?: number; // Die-cut outline thickness in px, 0 disables it
+  outlineColor?: [number, number, number]; // BGR, white by default
+  shadow?: IShadowStyle;
+  tint?: ITintStyle;
+}
+
+export interface IShadowStyle {
+  offset: number; // px, down and to the right
+  blur: number; // px
+  opacity: number; // 0..1
+}
+
+export interface ITintStyle {
+  color: [number, number, number]; // BGR
+  amount: number; // 0..1, how far colors are pulled towards the tint
+}
+
+const DEFAULT_OUTLINE = 8;
+const DEFAULT_SHADOW: IShadowStyle = { offset: 6, blur: 8, opacity: 0.35 };
+const DEFAULT_TINT_AMOUNT = 0.25;
+const WHITE: [number, number, number] = [255, 255, 255];
+
+export const STICKER_STYLE_PRESETS: Record<string, IStickerStyle> = {
+  none: {},
+  diecut: { outline: DEFAULT_OUTLINE },
+  "diecut-shadow": { outline: DEFAULT_OUTLINE, shadow: DEFAULT_SHADOW },
+  shadow: { shadow: DEFAULT_SHADOW },
+};
+
+/**
+ * Parses a style such as `diecut-shadow` or `outline=12 shadow=0.5 tint=#ff8800:0.3`.
+ * Words are either a preset name or one of:
+ * - `outline[=px]` and `outline-color=<color>`
+ * - `shadow[=opacity]`
+ * - `tint=<color>[:amount]`
+ * @returns undefined when nothing in the text could be understood.
+ */
+export function parseStickerStyle(
+  text: string | undefined
+): IStickerStyle | undefined {
+  if (!text?.trim()) return undefined;
+  let style: IStickerStyle | undefined;
+
+  const words = text
+    .trim()
+    .toLowerCase()
+    .split(/[\s,]+/);
+  for (const word of words) {
+    const [key, value] = word.split("=");
+    const preset = STICKER_STYLE_PRESETS[key];
+    if (preset && value === undefined) {
+      style = { ...style, ...preset };
+      continue;
+    }
+    switch (key) {
+      case "outline": {
+        const px = value === undefined ? DEFAULT_OUTLINE : Number(value);
+        if (Number.isFinite(px) && px >= 0) style = { ...style, outline: px };
+        break;
+      }
+      case "outline-color": {
+        const outlineColor = parseKeyColor(value);
+        if (outlineColor) style = { ...style, outlineColor };
+        break;
+      }
+      case "shadow": {
+        const opacity =
+          value === undefined ? DEFAULT_SHADOW.opacity : Number(value);
+        if (Number.isFinite(opacity) && opacity >= 0 && opacity <= 1) {
+          style = { ...style, shadow: { ...DEFAULT_SHADOW, opacity } };
+        }
+        break;
+      }
+      case "tint": {
+        const [colorText, amountText] = (value ?? "").split(":");
+        const color = parseKeyColor(colorText);
+        const amount = amountText ? Number(amountText) : DEFAULT_TINT_AMOUNT;
+        if (color && Number.isFinite(amount) && amount >= 0 && amount <= 1) {
+          style = { ...style, tint: { color, amount } };
+        }
+        break;
+      }
+    }
+  }
+  return style;
+}
+
+export function isStyled(style: IStickerStyle | undefined): boolean {
+  return !!style && (!!style.outline || !!style.shadow || !!style.tint);
+}
+
+// --- Helpers ---
+
+function ones(like: cv.Mat): cv.Mat {
+  return new cv.Mat(like.rows, like.cols, cv.CV_32FC1, 1);
+}
+
+function oddKernel(px: number): cv.Size {
+  const k = Math.max(1, Math.round(px)) * 2 + 1;
+  return new cv.Size(k, k);
+}
+
+function shift(mat: cv.Mat, dx: number, dy: number): cv.Mat {
+  const m = new cv.Mat(
+    [
+      [1, 0, dx],
+      [0, 1, dy],
+    ],
+    cv.CV_64F
+  );
+  return mat.warpAffine(m, new cv.Size(mat.cols, mat.rows));
+}
+
+/**
+ * Draws `top` over `bottom`. Both layers are premultiplied float channels
+ * ([B, G, R] scaled by alpha, plus alpha in 0..1).
+ */
+function over(top: cv.Mat[], bottom: cv.Mat[]): cv.Mat[] {
+  const alphaTop = top[3];
+  const rest = ones(alphaTop).sub(alphaTop);
+  return top.map((channel, i) => channel.add(bottom[i].hMul(rest)));
+}
+
+/** A flat colored layer shaped by the given alpha (0..1). */
+function solidLayer(
+  alpha: cv.Mat,
+  color: [number, number, number],
+  opacity = 1
+): cv.Mat[] {
+  const a = alpha.mul(opacity);
+  return [...color.map((c) => a.mul(c)), a];
+}
+
+// --- Styling ---
+
+/**
+ * Adds a die-cut outline, a soft drop shadow and a color tint to a feathered
+ * BGRA crop. The canvas grows to fit the outline and shadow, so nothing is
+ * clipped; later normalization scales the result back to sticker size.
+ */
+export function applyStickerStyle(img: cv.Mat, style: IStickerStyle): cv.Mat {
+  if (!isStyled(style)) return img;
+  const outline = style.outline ?? 0;
+  const shadow = style.shadow;
+  const pad =
+    Math.ceil(outline + (shadow ? shadow.offset + shadow.blur * 2 : 0)) + 2;
+  const padded = img.copyMakeBorder(
+    pad,
+    pad,
+    pad,
+    pad,
+    cv.BORDER_CONSTANT,
+    new cv.Vec4(0, 0, 0, 0)
+  );
+
+  // Crops already carry colors multiplied by their feathered alpha
+  const [B, G, R, A] = padded
+    .splitChannels()
+    .map((channel) => channel.convertTo(cv.CV_32FC1, 1 / 255));
+  let subject = [B, G, R, A];
+
+  if (style.tint) {
+    const { color, amount } = style.tint;
+    const tint = solidLayer(A, color.map((c) => c / 255) as typeof color);
+    subject = [
+      ...[B, G, R].map((channel, i) =>
+        channel.mul(1 - amount).add(tint[i].mul(amount))
+      ),
+      A,
+    ];
+  }
+
+  // Hard silhouette of the subject, grown by the outline thickness
+  const silhouette = padded
+    .splitChannels()[3]
+    .threshold(1, 255, cv.THRESH_BINARY);
+  let shape = A;
+  let layers = subject;
+  if (outline > 0) {
+    const grown = silhouette
+      .dilate(cv.getStructuringElement(cv.MORPH_ELLIPSE, oddKernel(outline)))
+      .gaussianBlur(new cv.Size(3, 3), 0) // anti-alias the cut line
+      .convertTo(cv.CV_32FC1, 1 / 255);
+    const color = (style.outlineColor ?? WHITE).map((c) => c / 255);
+    layers = over(layers, solidLayer(grown, color as typeof WHITE));
+    shape = grown;
+  }
+
+  if (shadow) {
+    const soft = shift(shape, shadow.offset, shadow.offset).gaussianBlur(
+      oddKernel(shadow.blur),
+      0
+    );
+    layers = over(layers, solidLayer(soft, [0, 0, 0], shadow.opacity));
+  }
+
+  return new cv.Mat(
+    layers.map((channel) => channel.convertTo(cv.CV_8UC1, 255))
+  );
+}
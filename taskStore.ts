@@ -0,0 +1,304 @@
+import fs from "fs/promises";
+import { IPayload } from "./types";
+import { ITask } from "./source";
+import { toTask } from "./soraSource";
+import { statePath } from "./paths";
+import { FOLDER_SOURCE_NAME } from "./folderSource";
+
+// --- Constants ---
+const TASKS_FILE_PATH = statePath("tasks.jsonl");
+const LEGACY_LAST_ID_FILE_PATH = statePath("last.json");
+export const MAX_TASK_ATTEMPTS = 5;
+// Finished tasks older than this are dropped when the journal is compacted,
+// except watched folder files: they are listed again on every start
+const TASK_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// The journal is rewritten once it has this many lines per known task
+const COMPACT_RATIO = 4;
+
+// --- Interfaces ---
+/**
+ * - `seen`: noticed in the feed, but not finished on Sora yet
+ * - `processing`: being sent right now (or the process died while sending)
+ * - `reviewing`: a review was posted, waiting for the owner's decision
+ * - `delivered`: everything was sent
+ * - `failed`: sending failed, retried on later fetches
+ * - `skipped`: part of the backlog that was deliberately not sent
+ */
+export type TaskState =
+  | "seen"
+  | "processing"
+  | "reviewing"
+  | "delivered"
+  | "failed"
+  | "skipped";
+
+export interface ITaskRecord {
+  id: string;
+  state: TaskState;
+  attempts: number;
+  delivered: number[]; // Sticker (or generation) indices already sent
+  headerSent?: boolean; // The MESSAGE_TEMPLATE header went out
+  error?: string;
+  task?: ITask; // Kept until delivered, so failed tasks can be retried
+  updatedAt: number;
+}
+
+// One journal line: either a change to a task or the new fetch cursor
+type JournalEntry =
+  | ({ id: string } & Partial<Omit<ITaskRecord, "id">>)
+  | { cursor: string };
+// Journals written before tasks were normalized stored Sora payloads
+type LegacyEntry = JournalEntry & { payload?: IPayload };
+
+/**
+ * Append-only journal of every task the bot has seen. Each change is one JSON
+ * line, replayed on startup, so a crash never loses more than the line being
+ * written. Replaces the single `last.json` cursor, which it imports once.
+ */
+export class TaskStore {
+  private tasks = new Map<string, ITaskRecord>();
+  private cursor?: string;
+  private lines = 0;
+
+  async load(): Promise<void> {
+    this.tasks.clear();
+    this.cursor = undefined;
+    this.lines = 0;
+    try {
+      const file = await fs.readFile(TASKS_FILE_PATH, "utf8");
+      for (const line of file.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          this.apply(JSON.parse(line));
+          this.lines++;
+        } catch {
+          // Most likely a line torn by a crash mid-write
+          console.warn(`Skipping unreadable line in ${TASKS_FILE_PATH}.`);
+        }
+      }
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read ${TASKS_FILE_PATH}, starting fresh. Error: ${error.message}`
+        );
+      }
+    }
+
+    if (!this.cursor) await this.importLegacyCursor();
+    // Sending was interrupted by a restart, let the retry pick it up
+    for (const record of this.tasks.values()) {
+      if (record.state === "processing") {
+        await this.update(record.id, {
+          state: "failed",
+          error: "Interrupted by a restart",
+        });
+      }
+    }
+    if (this.lines > COMPACT_RATIO * Math.max(this.tasks.size, 1)) {
+      await this.compact();
+    }
+    console.log(
+      `Loaded ${this.tasks.size} tasks, cursor: ${this.cursor ?? "None"}`
+    );
+  }
+
+  getCursor(): string | undefined {
+    return this.cursor;
+  }
+
+  async setCursor(id: string): Promise<void> {
+    if (id === this.cursor) return; // Avoid unnecessary writes
+    await this.append({ cursor: id });
+    this.cursor = id;
+    console.log(`Persisted new cursor: ${id}`);
+  }
+
+  get(id: string): ITaskRecord | undefined {
+    return this.tasks.get(id);
+  }
+
+  /** Delivered or skipped, either way nothing is left to send. */
+  isDone(id: string): boolean {
+    const state = this.tasks.get(id)?.state;
+    return state === "delivered" || state === "skipped";
+  }
+
+  /** Failed on every attempt, only a reset brings it back. */
+  isExhausted(id: string): boolean {
+    const record = this.tasks.get(id);
+    return record?.state === "failed" && record.attempts >= MAX_TASK_ATTEMPTS;
+  }
+
+  isStickerDelivered(id: string, index: number): boolean {
+    return !!this.tasks.get(id)?.delivered.includes(index);
+  }
+
+  isHeaderSent(id: string): boolean {
+    return !!this.tasks.get(id)?.headerSent;
+  }
+
+  /** Failed tasks that still have attempts left, oldest first. */
+  getRetryable(): ITaskRecord[] {
+    return [...this.tasks.values()]
+      .filter(
+        (record) =>
+          record.state === "failed" &&
+          !!record.task &&
+          record.attempts < MAX_TASK_ATTEMPTS
+      )
+      .sort((a, b) => a.updatedAt - b.updatedAt);
+  }
+
+  /** Waiting on a review, so it must not be sent (or reviewed) again. */
+  isInReview(id: string): boolean {
+    return this.tasks.get(id)?.state === "reviewing";
+  }
+
+  getByState(state: TaskState): ITaskRecord[] {
+    return [...this.tasks.values()].filter((r) => r.state === state);
+  }
+
+  countByState(state: TaskState): number {
+    return this.getByState(state).length;
+  }
+
+  async markSeen(task: ITask): Promise<void> {
+    if (this.tasks.has(task.id)) return;
+    await this.update(task.id, { state: "seen" });
+  }
+
+  async markProcessing(task: ITask): Promise<void> {
+    const attempts = (this.tasks.get(task.id)?.attempts ?? 0) + 1;
+    await this.update(task.id, { state: "processing", attempts, task });
+  }
+
+  async markReviewing(id: string): Promise<void> {
+    await this.update(id, { state: "reviewing" });
+  }
+
+  async markDelivered(id: string): Promise<void> {
+    await this.update(id, { state: "delivered" });
+  }
+
+  async markSkipped(id: string): Promise<void> {
+    await this.update(id, { state: "skipped" });
+  }
+
+  async markFailed(task: ITask, error: unknown): Promise<void> {
+    await this.update(task.id, {
+      state: "failed",
+      error: String(error),
+      task,
+    });
+  }
+
+  async markStickersDelivered(id: string, indices: number[]): Promise<void> {
+    const delivered = this.tasks.get(id)?.delivered ?? [];
+    const added = indices.filter((i) => !delivered.includes(i));
+    if (!added.length) return;
+    await this.update(id, { delivered: [...delivered, ...added] });
+  }
+
+  async markHeaderSent(id: string): Promise<void> {
+    await this.update(id, { headerSent: true });
+  }
+
+  /** Forgets what was sent for a task, so it is delivered again in full. */
+  async reset(id: string): Promise<void> {
+    if (!this.tasks.has(id)) return;
+    await this.update(id, {
+      state: "seen",
+      attempts: 0,
+      delivered: [],
+      headerSent: false,
+    });
+  }
+
+  // --- Journal ---
+
+  private async update(
+    id: string,
+    changes: Partial<Omit<ITaskRecord, "id">>
+  ): Promise<void> {
+    await this.append({ id, ...changes, updatedAt: Date.now() });
+  }
+
+  /** Applies an entry in memory first, then persists it. */
+  private async append(entry: JournalEntry): Promise<void> {
+    this.apply(entry);
+    try {
+      await fs.appendFile(TASKS_FILE_PATH, JSON.stringify(entry) + "\n");
+      this.lines++;
+    } catch (error) {
+      console.error(`Failed to write ${TASKS_FILE_PATH}:`, error);
+    }
+  }
+
+  private apply(entry: LegacyEntry): void {
+    if ("cursor" in entry) {
+      this.cursor = entry.cursor;
+      return;
+    }
+    const { id, payload, ...changes } = entry;
+    if (payload) changes.task = toTask(payload);
+    const record: ITaskRecord = {
+      id,
+      state: "seen",
+      attempts: 0,
+      delivered: [],
+      updatedAt: Date.now(),
+      ...this.tasks.get(id),
+      ...changes,
+    };
+    if (record.state === "delivered" || record.state === "skipped") {
+      delete record.task;
+      delete record.error;
+    }
+    this.tasks.set(id, record);
+  }
+
+  /** Rewrites the journal with one line per task, dropping old finished ones. */
+  private async compact(): Promise<void> {
+    const cutoff = Date.now() - TASK_RETENTION_MS;
+    for (const [id, record] of this.tasks) {
+      if (
+        record.state !== "failed" &&
+        record.updatedAt < cutoff &&
+        !record.id.startsWith(`${FOLDER_SOURCE_NAME}:`)
+      ) {
+        this.tasks.delete(id);
+      }
+    }
+    const entries: JournalEntry[] = [...this.tasks.values()];
+    if (this.cursor) entries.push({ cursor: this.cursor });
+    const tmpPath = `${TASKS_FILE_PATH}.tmp`;
+    try {
+      await fs.writeFile(
+        tmpPath,
+        entries.map((entry) => JSON.stringify(entry) + "\n").join(""),
+        "utf8"
+      );
+      await fs.rename(tmpPath, TASKS_FILE_PATH);
+      this.lines = entries.length;
+      console.log(`Compacted ${TASKS_FILE_PATH} to ${entries.length} lines.`);
+    } catch (error) {
+      console.error(`Failed to compact ${TASKS_FILE_PATH}:`, error);
+    }
+  }
+
+  private async importLegacyCursor(): Promise<void> {
+    try {
+      const file = await fs.readFile(LEGACY_LAST_ID_FILE_PATH, "utf8");
+      const data = JSON.parse(file);
+      if (typeof data !== "string") return;
+      await this.setCursor(data);
+      console.log(`Imported cursor from ${LEGACY_LAST_ID_FILE_PATH}.`);
+    } catch (error: any) {
+      if (error.code !== "ENOENT") {
+        console.warn(
+          `Could not read ${LEGACY_LAST_ID_FILE_PATH}. Error: ${error.message}`
+        );
+      }
+    }
+  }
+}
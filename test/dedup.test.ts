@@ -0,0 +1,112 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  differenceHash,
+  findDuplicateClusters,
+  hammingDistance,
+  IHashRecord,
+  parseDedupDistance,
+  summarizeDuplicates,
+} from "../dedup";
+
+/** A 9x8 thumbnail getting brighter to the right, with `flips` rows reversed. */
+function gradient(flips = 0): number[][] {
+  return Array.from({ length: 8 }, (_, y) => {
+    const row = Array.from({ length: 9 }, (_, x) => x * 10 + y);
+    return y < flips ? row.reverse() : row;
+  });
+}
+
+function record(hash: string, taskId: string, index: number): IHashRecord {
+  return { hash, taskId, index, at: 0 };
+}
+
+describe("sticker dedup", () => {
+  test("hashes thumbnails into 64 bits and counts differing ones", () => {
+    assert.equal(differenceHash(gradient()), "0000000000000000");
+    assert.equal(differenceHash(gradient(1)), "ff00000000000000");
+    assert.equal(hammingDistance("ff00000000000000", "0f00000000000001"), 5);
+    assert.equal(hammingDistance("ffffffffffffffff", "0000000000000000"), 64);
+  });
+
+  test("finds the same clusters as comparing every pair", () => {
+    let seed = 42;
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2 ** 31);
+    const randomHash = () =>
+      Array.from({ length: 16 }, () => (random() % 16).toString(16)).join("");
+    // Flips `bits` random bits of a hash
+    const nudge = (hash: string, bits: number) => {
+      let value = BigInt(`0x${hash}`);
+      for (let n = 0; n < bits; n++) value ^= 1n << BigInt(random() % 64);
+      return value.toString(16).padStart(16, "0");
+    };
+    const records: IHashRecord[] = [];
+    for (let i = 0; i < 150; i++) {
+      const hash = randomHash();
+      records.push(record(hash, `task_${i}`, 0));
+      if (i % 3 === 0) records.push(record(nudge(hash, i % 9), `task_${i}`, 1));
+    }
+
+    const bruteForce = (maxDistance: number) => {
+      const pairs = new Set<string>();
+      records.forEach((a, i) =>
+        records.slice(i + 1).forEach((b) => {
+          if (hammingDistance(a.hash, b.hash) <= maxDistance) {
+            pairs.add(`${a.taskId}#${a.index}`);
+            pairs.add(`${b.taskId}#${b.index}`);
+          }
+        })
+      );
+      return [...pairs].sort();
+    };
+    for (const maxDistance of [0, 4, 6, 20]) {
+      const clustered = findDuplicateClusters(records, maxDistance)
+        .flat()
+        .map(({ taskId, index }) => `${taskId}#${index}`)
+        .sort();
+      assert.deepEqual(clustered, bruteForce(maxDistance));
+    }
+  });
+
+  test("clusters near-duplicates across tasks", () => {
+    const clusters = findDuplicateClusters(
+      [
+        record("0000000000000000", "task_a", 0),
+        record("ffffffffffffffff", "task_a", 1),
+        record("0000000000000003", "task_b", 4),
+        record("000000000000000f", "task_c", 2), // 2 from task_b, 4 from task_a
+      ],
+      2
+    );
+    assert.deepEqual(
+      clusters.map((cluster) =>
+        cluster.map(({ taskId, index }) => `${taskId}#${index}`)
+      ),
+      [["task_a#0", "task_b#4", "task_c#2"]]
+    );
+  });
+
+  test("names the sticker every repeat matches", () => {
+    assert.equal(
+      summarizeDuplicates(
+        [
+          { index: 0, of: { taskId: "task_a", index: 3 }, distance: 0 },
+          { index: 1, of: { taskId: "task_a", index: 4 }, distance: 1 },
+          { index: 6, of: { taskId: "task_b", index: 2 }, distance: 1 },
+        ],
+        "task_b",
+        true
+      ),
+      "⚠️ Skipped repeats: crops 1, 2 (task_a), 7 (crop 3)"
+    );
+    assert.equal(summarizeDuplicates([], "task_b"), undefined);
+  });
+
+  test("accepts whole distances up to 64 bits", () => {
+    assert.equal(parseDedupDistance("0"), 0);
+    assert.equal(parseDedupDistance(" 10 "), 10);
+    for (const text of ["-1", "65", "2.5", "six", "", undefined]) {
+      assert.equal(parseDedupDistance(text), undefined);
+    }
+  });
+});
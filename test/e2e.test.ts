@@ -0,0 +1,434 @@
+import { afterEach, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import { TaskStatus, TaskType } from "../types";
+import { FakeSoraServer } from "./fakes/soraServer";
+import { FakeTelegramServer } from "./fakes/telegramServer";
+import { makeGeneration, makePayload, makeResponse } from "./fixtures";
+import {
+  getFreePort,
+  INotificatorProcess,
+  makeStateDir,
+  readCursor,
+  sleep,
+  startNotificator,
+  waitFor,
+} from "./helpers";
+
+const EXAMPLES_DIR = path.join(__dirname, "..", "examples");
+
+describe("notificator end to end", () => {
+  let sora: FakeSoraServer;
+  let telegram: FakeTelegramServer;
+  let stateDir: string;
+  let running: INotificatorProcess[];
+
+  beforeEach(async () => {
+    sora = new FakeSoraServer(EXAMPLES_DIR);
+    telegram = new FakeTelegramServer();
+    await sora.start();
+    await telegram.start();
+    stateDir = await makeStateDir();
+    running = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(running.map((bot) => bot.stop()));
+    await sora.stop();
+    await telegram.stop();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  function start(env: Record<string, string> = {}): INotificatorProcess {
+    const bot = startNotificator({
+      BOT_TOKEN: "123:TEST",
+      CHAT_ID: "42",
+      SORA_API_URL: sora.notifUrl,
+      TELEGRAM_API_ROOT: telegram.url,
+      STATE_DIR: stateDir,
+      POLL_INTERVAL_SCALE: "0.01", // 5s minimum interval becomes 50ms
+      ...env,
+    });
+    running.push(bot);
+    return bot;
+  }
+
+  function video(id: string, status = TaskStatus.succeeded) {
+    return makePayload(id, {
+      status,
+      type: TaskType.videoGen,
+      generations: [makeGeneration(`gen_${id}`, sora.fileUrl(`${id}.mp4`))],
+    });
+  }
+
+  /** Task ids in the order their videos reached Telegram. */
+  function deliveredVideos(): string[] {
+    return telegram.callsTo("sendMediaGroup").map((call) => {
+      const media: string = call.params.media[0].media;
+      return media.startsWith("attach://")
+        ? call.files[0].replace(/^Task (.+)\.mp4$/, "$1") // Uploaded
+        : path.basename(new URL(media).pathname, ".mp4"); // Sent by URL
+    });
+  }
+
+  test("delivers stickers once and keeps the cursor across restarts", async () => {
+    const task = makePayload("task_1", {
+      type: TaskType.imageGen,
+      generations: [makeGeneration("gen_1", sora.fileUrl("fruit.webp"))],
+    });
+    sora.script(makeResponse([task]));
+
+    const bot = start();
+    await waitFor(
+      () => telegram.callsTo("sendSticker").length === 9,
+      "nine stickers"
+    );
+    await waitFor(
+      () =>
+        telegram
+          .callsTo("sendMessage")
+          .some((call) => call.params.text.includes("3x3 grid")),
+      "the sticker summary"
+    );
+    await bot.stop();
+    assert.equal(await readCursor(stateDir), "task_1");
+
+    // The restarted bot continues from the stored cursor
+    const polled = sora.requests.length;
+    start();
+    await waitFor(() => sora.requests.length > polled + 2, "more polls");
+    assert.equal(sora.requests[polled].query.before, "task_1");
+    assert.equal(telegram.callsTo("sendSticker").length, 9);
+  });
+
+  test("archives the original, crops and metadata of a task", async () => {
+    const archiveDir = path.join(stateDir, "archive");
+    sora.script(
+      makeResponse([
+        makePayload("task_1", {
+          type: TaskType.imageGen,
+          prompt: "Fruit stickers [grid 3x3]",
+          model: "sora-image",
+          generations: [makeGeneration("gen_1", sora.fileUrl("fruit.webp"))],
+        }),
+      ])
+    );
+
+    start({ ARCHIVE_DIR: archiveDir });
+    const indexFile = path.join(archiveDir, "index.jsonl");
+    const index = await waitFor(
+      () => fs.readFile(indexFile, "utf8").catch(() => null),
+      "the archive index"
+    );
+    const entry = JSON.parse(index);
+    assert.equal(entry.taskId, "task_1");
+    assert.equal(entry.stickers, 9);
+
+    const taskDir = path.join(archiveDir, entry.prefix);
+    const sidecar = JSON.parse(
+      await fs.readFile(path.join(taskDir, "task.json"), "utf8")
+    );
+    assert.equal(sidecar.prompt, "Fruit stickers [grid 3x3]");
+    assert.equal(sidecar.model, "sora-image");
+    assert.equal(sidecar.outputs[0].layout, "3x3");
+    assert.deepEqual(
+      await fs.readFile(path.join(taskDir, "original-1.webp")),
+      await fs.readFile(path.join(EXAMPLES_DIR, "fruit.webp"))
+    );
+    assert.equal((await fs.readdir(path.join(taskDir, "stickers"))).length, 9);
+  });
+
+  test("posts a header from the template and the original sheet", async () => {
+    sora.script(
+      makeResponse([
+        makePayload("task_1", {
+          type: TaskType.imageGen,
+          prompt: 'Fruit <b>"stickers"</b>',
+          model: "sora-image",
+          generations: [
+            {
+              ...makeGeneration("gen_1", sora.fileUrl("fruit.webp")),
+              seed: 42,
+            },
+          ],
+        }),
+      ])
+    );
+
+    start({
+      MESSAGE_TEMPLATE:
+        "<b>{title}</b> · {model} · seed {seed}\\n<i>{prompt}</i>",
+      SEND_ORIGINALS: "true",
+    });
+    const original = await waitFor(
+      () => telegram.callsTo("sendDocument")[0],
+      "the original sheet"
+    );
+    assert.deepEqual(original.files, ["Task task_1.webp"]);
+    assert.match(original.params.caption, /original, 3x3 grid/);
+
+    const [header] = telegram.callsTo("sendMessage");
+    assert.equal(
+      header.params.text,
+      "<b>Task task_1</b> · sora-image · seed 42\n<i>Fruit &lt;b&gt;&quot;stickers&quot;&lt;/b&gt;</i>"
+    );
+    // The header comes before the stickers
+    assert.ok(
+      telegram.calls.indexOf(header) <
+        telegram.calls.indexOf(telegram.callsTo("sendSticker")[0])
+    );
+  });
+
+  test("skips stickers that repeat an earlier task", async () => {
+    sora.script(
+      makeResponse(
+        ["task_a", "task_b"].map((id) =>
+          makePayload(id, {
+            type: TaskType.imageGen,
+            generations: [
+              makeGeneration(`gen_${id}`, sora.fileUrl("fruit.webp")),
+            ],
+          })
+        )
+      )
+    );
+
+    start({ DEDUP_MODE: "skip" });
+    const notice = await waitFor(
+      () =>
+        telegram
+          .callsTo("sendMessage")
+          .find((call) => call.params.text.includes("Skipped repeats")),
+      "the skipped repeats notice"
+    );
+    assert.match(
+      notice.params.text,
+      /Skipped repeats: crops 1, 2, 3, 4, 5, 6, 7, 8, 9 \(task_[ab]\)/
+    );
+    assert.equal(telegram.callsTo("sendSticker").length, 9);
+    const hashes = await fs.readFile(
+      path.join(stateDir, "sticker-hashes.jsonl"),
+      "utf8"
+    );
+    assert.equal(hashes.trim().split("\n").length, 9);
+  });
+
+  test("shows, updates and removes the progress message", async () => {
+    sora.script(
+      makeResponse([
+        makePayload("task_1", {
+          status: TaskStatus.queued,
+          progress_pos_in_queue: 2,
+          estimated_queue_wait_time: 90,
+        }),
+      ]),
+      makeResponse([
+        makePayload("task_1", {
+          status: TaskStatus.running,
+          progress_pct: 0.3,
+        }),
+      ]),
+      makeResponse([
+        makePayload("task_1", {
+          status: TaskStatus.running,
+          progress_pct: 0.6,
+        }),
+      ]),
+      makeResponse([video("task_1")])
+    );
+
+    start();
+    await waitFor(
+      () => telegram.callsTo("deleteMessage").length === 1,
+      "the progress message to be deleted"
+    );
+
+    const progress = telegram
+      .callsTo("sendMessage")
+      .find((call) => /#2 in line/.test(call.params.text));
+    assert.ok(progress, "no queued progress message");
+    assert.equal(progress.params.disable_notification, true);
+    const edits = telegram.callsTo("editMessageText");
+    assert.match(edits[0].params.text, /30%/);
+    assert.match(edits[edits.length - 1].params.text, /60%/);
+    const progressId = edits[0].params.message_id;
+    for (const edit of edits) assert.equal(edit.params.message_id, progressId);
+    assert.equal(
+      telegram.callsTo("deleteMessage")[0].params.message_id,
+      progressId
+    );
+    assert.deepEqual(deliveredVideos(), ["task_1"]);
+  });
+
+  test("retries a failed task without holding up newer ones", async () => {
+    telegram.failNext("sendMediaGroup", {
+      error_code: 400,
+      description: "Bad Request: scripted failure",
+    });
+    sora.script(makeResponse([video("task_b"), video("task_a")]));
+
+    start();
+    await waitFor(
+      () => deliveredVideos().length === 3,
+      "the failed task to be retried"
+    );
+    // task_a fails first, task_b still goes out, then task_a is retried
+    assert.deepEqual(deliveredVideos(), ["task_a", "task_b", "task_a"]);
+    assert.equal(await readCursor(stateDir), "task_b");
+
+    await sleep(500); // A few more polls must not send anything again
+    assert.equal(deliveredVideos().length, 3);
+  });
+
+  test("waits out Telegram rate limits", async () => {
+    telegram.failNext("sendMediaGroup", {
+      error_code: 429,
+      description: "Too Many Requests: retry after 1",
+      parameters: { retry_after: 1 },
+    });
+    sora.script(makeResponse([video("task_1")]));
+
+    start();
+    await waitFor(
+      () => deliveredVideos().length === 2,
+      "the rate limited call to be repeated"
+    );
+    await sleep(500);
+    assert.deepEqual(deliveredVideos(), ["task_1", "task_1"]);
+  });
+
+  test("splits large groups and uploads videos Telegram can't fetch", async () => {
+    const MB = 1024 * 1024;
+    const clips = Array.from({ length: 11 }, (_, i) =>
+      makeGeneration(`gen_${i}`, sora.fileUrl("fruit.webp"), {
+        source: { path: null, size: MB },
+      })
+    );
+    const large = makeGeneration("gen_large", sora.fileUrl("missing.mp4"), {
+      source: { path: null, size: 60 * MB },
+      md: { path: sora.fileUrl("fruit.webp"), size: 10 * MB, width: 480 },
+      thumbnail: { path: sora.fileUrl("doc_2025-05-03_21-19-26.webp") },
+    });
+    telegram.failNext("sendMediaGroup", {
+      error_code: 400,
+      description: "Bad Request: failed to get HTTP URL content",
+    });
+    sora.script(
+      makeResponse([
+        makePayload("task_large", {
+          type: TaskType.videoGen,
+          generations: [large],
+        }),
+        makePayload("task_many", {
+          type: TaskType.videoGen,
+          generations: clips,
+        }),
+      ])
+    );
+
+    start();
+    await waitFor(
+      () => telegram.callsTo("sendMediaGroup").length === 4,
+      "every group"
+    );
+    const [failed, uploaded, rest, fallback] =
+      telegram.callsTo("sendMediaGroup");
+    // 11 clips go out as 6 + 5, the first group is uploaded after Telegram
+    // failed to fetch it
+    assert.equal(failed.params.media.length, 6);
+    assert.equal(failed.files.length, 0);
+    assert.equal(uploaded.files.length, 6);
+    assert.equal(rest.params.media.length, 5);
+    // The source is over the upload limit, its md rendition is uploaded
+    assert.deepEqual(fallback.files, ["Task task_large.mp4", "thumbnail.jpg"]);
+    assert.equal(fallback.params.media[0].width, 480);
+  });
+
+  test("keeps polling through Sora errors", async () => {
+    sora.script(
+      { status: 429 },
+      { status: 500 },
+      makeResponse([video("task_1")])
+    );
+
+    start();
+    await waitFor(() => deliveredVideos().length === 1, "the task");
+    assert.equal(await readCursor(stateDir), "task_1");
+  });
+
+  test("pages through a backlog and delivers it oldest first", async () => {
+    await fs.writeFile(
+      path.join(stateDir, "tasks.jsonl"),
+      JSON.stringify({ cursor: "task_0" }) + "\n"
+    );
+    sora.script(({ query }) => {
+      if (query.before === "task_0") {
+        return makeResponse([video("task_2"), video("task_1")], true);
+      }
+      if (query.before === "task_2") {
+        return makeResponse([video("task_4"), video("task_3")]);
+      }
+      return makeResponse([]);
+    });
+
+    start();
+    await waitFor(() => deliveredVideos().length === 4, "the whole backlog");
+    assert.deepEqual(deliveredVideos(), [
+      "task_1",
+      "task_2",
+      "task_3",
+      "task_4",
+    ]);
+    assert.equal(await readCursor(stateDir), "task_4");
+  });
+
+  test("reports health and metrics over HTTP", async () => {
+    sora.script(makeResponse([video("task_1")]), { status: 401 });
+    const port = await getFreePort();
+    const healthz = `http://127.0.0.1:${port}/healthz`;
+
+    start({ HEALTH_PORT: String(port) });
+    await waitFor(() => deliveredVideos().length === 1, "the task");
+    const report = await waitFor(async () => {
+      const res = await fetch(healthz).catch(() => null);
+      return res?.status === 503 ? res.json() : null;
+    }, "the expired session to show as unhealthy");
+    assert.match(report.reasons[0], /session rejected with 401/);
+
+    const metrics = await (
+      await fetch(`http://127.0.0.1:${port}/metrics`)
+    ).text();
+    assert.match(metrics, /sticker_gpt_api_errors_total\{status="401"\} [1-9]/);
+    assert.match(
+      metrics,
+      /sticker_gpt_tasks_processed_total\{type="video_gen",result="delivered"\} 1/
+    );
+    assert.match(metrics, /sticker_gpt_task_turnaround_seconds_count 1/);
+  });
+
+  test("slices sheets dropped into a watched folder", async () => {
+    const watchDir = path.join(stateDir, "inbox");
+    await fs.mkdir(watchDir);
+
+    start({ SOURCES: "folder", WATCH_DIR: watchDir });
+    await sleep(200);
+    await fs.copyFile(
+      path.join(EXAMPLES_DIR, "fruit.webp"),
+      path.join(watchDir, "fruit [grid 3x3].webp")
+    );
+    await waitFor(
+      () => telegram.callsTo("sendSticker").length === 9,
+      "nine stickers"
+    );
+    const summary = await waitFor(
+      () =>
+        telegram
+          .callsTo("sendMessage")
+          .find((call) => call.params.text.includes("3x3 grid")),
+      "the sticker summary"
+    );
+    assert.match(summary.params.text, /^<b>fruit \[grid 3x3\]<\/b>/);
+    assert.equal(sora.requests.length, 0);
+  });
+});
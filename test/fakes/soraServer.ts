@@ -0,0 +1,112 @@
+import http from "http";
+import fs from "fs/promises";
+import path from "path";
+import { AddressInfo } from "net";
+import { IResponse } from "../../types";
+
+// --- Interfaces ---
+export interface ISoraRequest {
+  query: Record<string, string>; // e.g. { limit: "100", before: "task_1" }
+  headers: http.IncomingHttpHeaders;
+}
+
+/** An HTTP error answer, e.g. `{ status: 429 }` or `{ status: 401 }`. */
+export interface ISoraError {
+  status: number;
+  body?: unknown;
+}
+
+export type SoraStep =
+  | IResponse
+  | ISoraError
+  | ((req: ISoraRequest) => IResponse | ISoraError);
+
+/**
+ * Stand-in for the Sora notif API. Every request to /backend/notif is answered
+ * with the next scripted step, and the last step repeats once the script runs
+ * out. Files in `filesDir` are served under /files/, for generation URLs.
+ */
+export class FakeSoraServer {
+  readonly requests: ISoraRequest[] = [];
+  private steps: SoraStep[] = [];
+  private next = 0;
+  private readonly server = http.createServer((req, res) =>
+    this.handle(req, res).catch((error) => {
+      res.writeHead(500).end(String(error));
+    })
+  );
+
+  constructor(private readonly filesDir: string) {}
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  get notifUrl(): string {
+    return `${this.url}/backend/notif`;
+  }
+
+  fileUrl(name: string): string {
+    return `${this.url}/files/${encodeURIComponent(name)}`;
+  }
+
+  /** Appends steps to the script. */
+  script(...steps: SoraStep[]): void {
+    this.steps.push(...steps);
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url ?? "/", this.url);
+
+    if (url.pathname.startsWith("/files/")) {
+      const name = path.basename(decodeURIComponent(url.pathname.slice(7)));
+      try {
+        res
+          .writeHead(200)
+          .end(await fs.readFile(path.join(this.filesDir, name)));
+      } catch {
+        res.writeHead(404).end();
+      }
+      return;
+    }
+    if (url.pathname !== "/backend/notif") {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const request: ISoraRequest = {
+      query: Object.fromEntries(url.searchParams),
+      headers: req.headers,
+    };
+    this.requests.push(request);
+
+    const step = this.steps[Math.min(this.next++, this.steps.length - 1)];
+    const answer = typeof step === "function" ? step(request) : step;
+    if (!answer) {
+      res.writeHead(500).end("No scripted response");
+    } else if ("status" in answer) {
+      res
+        .writeHead(answer.status, { "Content-Type": "application/json" })
+        .end(JSON.stringify(answer.body ?? { error: "scripted error" }));
+    } else {
+      res
+        .writeHead(200, { "Content-Type": "application/json" })
+        .end(JSON.stringify(answer));
+    }
+  }
+}
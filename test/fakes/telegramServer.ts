@@ -0,0 +1,151 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+// --- Interfaces ---
+export interface ITelegramCall {
+  method: string;
+  params: Record<string, any>; // JSON fields, objects already parsed
+  files: string[]; // File names of the multipart uploads
+}
+
+export interface ITelegramError {
+  error_code: number;
+  description: string;
+  parameters?: { retry_after?: number };
+}
+
+const BOT_INFO = {
+  id: 1,
+  is_bot: true,
+  first_name: "Fake",
+  username: "fake_bot",
+};
+
+/**
+ * Stand-in for the Telegram Bot API. Records every call it receives and
+ * answers with plausible results; scripted errors are returned first.
+ */
+export class FakeTelegramServer {
+  readonly calls: ITelegramCall[] = [];
+  private readonly failures = new Map<string, ITelegramError[]>();
+  private nextMessageId = 1;
+  private readonly server = http.createServer((req, res) =>
+    this.handle(req, res).catch((error) => {
+      res.writeHead(500).end(String(error));
+    })
+  );
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, "127.0.0.1", resolve)
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  /** Value for TELEGRAM_API_ROOT. */
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Makes the next call to `method` fail with `error`. */
+  failNext(method: string, error: ITelegramError): void {
+    this.failures.set(method, [...(this.failures.get(method) ?? []), error]);
+  }
+
+  callsTo(method: string): ITelegramCall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const method = req.url?.match(/^\/bot[^/]+\/(\w+)/)?.[1];
+    if (!method) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const call = { method, ...(await this.readParams(req)) };
+    this.calls.push(call);
+
+    const failure = this.failures.get(method)?.shift();
+    const body = failure
+      ? { ok: false, ...failure }
+      : { ok: true, result: this.getResult(call) };
+    res
+      .writeHead(failure ? failure.error_code : 200, {
+        "Content-Type": "application/json",
+      })
+      .end(JSON.stringify(body));
+  }
+
+  /** Reads JSON and multipart bodies alike, Telegraf sends both. */
+  private async readParams(
+    req: http.IncomingMessage
+  ): Promise<Omit<ITelegramCall, "method">> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = Buffer.concat(chunks);
+    const contentType = req.headers["content-type"] ?? "";
+    if (!body.length) return { params: {}, files: [] };
+    if (!contentType.startsWith("multipart/form-data")) {
+      return { params: JSON.parse(body.toString("utf8")), files: [] };
+    }
+
+    const form = await new Request("http://fake", {
+      method: "POST",
+      headers: { "Content-Type": contentType },
+      body,
+    }).formData();
+    const params: Record<string, any> = {};
+    const files: string[] = [];
+    form.forEach((value, key) => {
+      if (typeof value !== "string") {
+        files.push(value.name);
+        return;
+      }
+      try {
+        params[key] = JSON.parse(value);
+      } catch {
+        params[key] = value;
+      }
+    });
+    return { params, files };
+  }
+
+  private getResult(call: ITelegramCall): unknown {
+    const message = () => ({
+      message_id: this.nextMessageId++,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: Number(call.params.chat_id) || 0, type: "private" },
+      text: call.params.text,
+    });
+
+    switch (call.method) {
+      case "getMe":
+        return BOT_INFO;
+      case "sendMediaGroup":
+        return (call.params.media ?? []).map(message);
+      case "uploadStickerFile":
+        return { file_id: `file_${this.nextMessageId++}`, file_unique_id: "u" };
+      case "getUpdates":
+        return [];
+      case "deleteMessage":
+      case "deleteWebhook":
+      case "setMyCommands":
+      case "createNewStickerSet":
+      case "addStickerToSet":
+      case "answerCallbackQuery":
+        return true;
+      default:
+        // send*, edit* and everything else answers with a message
+        return message();
+    }
+  }
+}
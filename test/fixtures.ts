@@ -0,0 +1,60 @@
+import {
+  IGeneration,
+  IPayload,
+  IResponse,
+  TaskStatus,
+  TaskType,
+} from "../types";
+
+/** A task as the notif API sends it, with only the fields the bot reads. */
+export function makePayload(
+  id: string,
+  overrides: Partial<IPayload> = {}
+): IPayload {
+  return {
+    id,
+    status: TaskStatus.succeeded,
+    type: TaskType.videoGen,
+    created_at: new Date().toISOString(),
+    title: `Task ${id}`,
+    prompt: null,
+    progress_pct: null,
+    progress_pos_in_queue: null,
+    estimated_queue_wait_time: null,
+    queue_status_message: null,
+    n_variants: 1,
+    num_unsafe_generations: 0,
+    failure_reason: null,
+    needs_user_review: false,
+    moderation_result: null,
+    actions: {},
+    generations: [],
+    ...overrides,
+  } as unknown as IPayload;
+}
+
+/** `encodings` replaces the default one, which only has the source path. */
+export function makeGeneration(
+  id: string,
+  url: string,
+  encodings: Record<string, object> = { source: { path: url } }
+): IGeneration {
+  return {
+    id,
+    url,
+    title: null,
+    encodings,
+  } as unknown as IGeneration;
+}
+
+/** Payloads are listed newest first, like the API does. */
+export function makeResponse(payloads: IPayload[], hasMore = false): IResponse {
+  return {
+    data: payloads.map((payload, i) => ({
+      ordering_key: payloads.length - i,
+      payload,
+    })),
+    last_id: payloads[payloads.length - 1]?.id ?? null,
+    has_more: hasMore,
+  } as IResponse;
+}
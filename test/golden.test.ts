@@ -0,0 +1,95 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import path from "path";
+import * as cv from "opencv4nodejs";
+import { cropFeatheredStickers, ICropOptions, IStickerImage } from "../cv";
+import { STICKER_STYLE_PRESETS } from "../style";
+import { FakeSoraServer } from "./fakes/soraServer";
+
+const EXAMPLES_DIR = path.join(__dirname, "..", "examples");
+const GOLDEN_DIR = path.join(__dirname, "golden");
+const UPDATE_GOLDEN = process.env.UPDATE_GOLDEN === "1";
+const MAX_STICKER_BYTES = 64 * 1024;
+// Mean absolute difference per channel (0..255) still counted as a match, so
+// a different libwebp build does not fail the suite.
+const MAX_MEAN_DIFF = 2;
+
+/** Mean absolute difference over all four channels of two same-size images. */
+function meanDiff(a: cv.Mat, b: cv.Mat): number {
+  const { w, x, y, z } = a.absdiff(b).mean();
+  return (w + x + y + z) / 4;
+}
+
+/**
+ * Compares every sticker with its golden PNG. A missing golden fails the
+ * test; UPDATE_GOLDEN=1 writes all of them instead.
+ */
+async function assertMatchesGolden(
+  name: string,
+  stickers: IStickerImage[]
+): Promise<void> {
+  if (UPDATE_GOLDEN) await fs.mkdir(GOLDEN_DIR, { recursive: true });
+  for (const [idx, sticker] of stickers.entries()) {
+    const goldenPath = path.join(GOLDEN_DIR, `${name}-${idx}.png`);
+    const actual = cv.imdecode(sticker.buffer, cv.IMREAD_UNCHANGED);
+    if (UPDATE_GOLDEN) {
+      await fs.writeFile(goldenPath, cv.imencode(".png", actual));
+      console.log(`Wrote golden ${path.relative(process.cwd(), goldenPath)}`);
+      continue;
+    }
+    const golden = await fs.readFile(goldenPath).catch(() => null);
+    assert.ok(
+      golden,
+      `${name} sticker ${idx} has no golden, run with UPDATE_GOLDEN=1 and commit ${path.relative(
+        process.cwd(),
+        goldenPath
+      )}`
+    );
+
+    const expected = cv.imdecode(golden, cv.IMREAD_UNCHANGED);
+    assert.deepEqual(
+      [actual.cols, actual.rows, actual.channels],
+      [expected.cols, expected.rows, expected.channels],
+      `${name} sticker ${idx} changed size`
+    );
+    const diff = meanDiff(actual, expected);
+    assert.ok(
+      diff <= MAX_MEAN_DIFF,
+      `${name} sticker ${idx} differs from its golden by ${diff.toFixed(2)}`
+    );
+  }
+}
+
+describe("sticker cropping goldens", () => {
+  const sora = new FakeSoraServer(EXAMPLES_DIR);
+  before(() => sora.start());
+  after(() => sora.stop());
+
+  async function crop(opts: ICropOptions) {
+    const result = await cropFeatheredStickers(sora.fileUrl("fruit.webp"), {
+      featherPx: 10,
+      ...opts,
+    });
+    // Detected layouts also carry the gutter positions, which may shift
+    assert.deepEqual([result.layout.rows, result.layout.cols], [3, 3]);
+    assert.equal(result.stickers.length, 9);
+    for (const sticker of result.stickers) {
+      assert.equal(sticker.width, 512);
+      assert.equal(sticker.height, 512);
+      assert.ok(sticker.bytes <= MAX_STICKER_BYTES);
+    }
+    return result.stickers;
+  }
+
+  test("plain feathered crops", async () => {
+    await assertMatchesGolden("fruit", await crop({}));
+  });
+
+  test("diecut-shadow style", async () => {
+    await assertMatchesGolden(
+      "fruit-diecut-shadow",
+      await crop({ style: STICKER_STYLE_PRESETS["diecut-shadow"] })
+    );
+  });
+});
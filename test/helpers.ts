@@ -0,0 +1,107 @@
+import { ChildProcess, spawn } from "child_process";
+import fs from "fs/promises";
+import net from "net";
+import os from "os";
+import path from "path";
+
+const ROOT = path.join(__dirname, "..");
+const NOTIF_PATH = path.join(ROOT, "notif.ts");
+const STOP_TIMEOUT_MS = 5000;
+
+export interface INotificatorProcess {
+  output: string[]; // stdout and stderr lines
+  stop(): Promise<void>;
+}
+
+/** A fresh state folder with headers.json, the bot refuses to poll without. */
+export async function makeStateDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "sticker-gpt-"));
+  await fs.writeFile(
+    path.join(dir, "headers.json"),
+    JSON.stringify({ Authorization: "Bearer test" })
+  );
+  return dir;
+}
+
+/**
+ * Runs notif.ts in a child process with only the given environment. It runs
+ * inside the state folder so a developer's own .env is never picked up.
+ */
+export function startNotificator(
+  env: Record<string, string>
+): INotificatorProcess {
+  const child: ChildProcess = spawn(
+    process.execPath,
+    [require.resolve("tsx/cli"), NOTIF_PATH],
+    {
+      cwd: env.STATE_DIR,
+      env: { PATH: process.env.PATH, ...env },
+      stdio: ["ignore", "pipe", "pipe"],
+    }
+  );
+  const output: string[] = [];
+  const collect = (chunk: Buffer) =>
+    output.push(...chunk.toString("utf8").split("\n").filter(Boolean));
+  child.stdout?.on("data", collect);
+  child.stderr?.on("data", collect);
+  const exited = new Promise<void>((resolve) =>
+    child.once("exit", () => resolve())
+  );
+
+  return {
+    output,
+    async stop() {
+      if (child.exitCode !== null) return;
+      child.kill("SIGTERM");
+      const timeout = setTimeout(() => child.kill("SIGKILL"), STOP_TIMEOUT_MS);
+      await exited;
+      clearTimeout(timeout);
+    },
+  };
+}
+
+/** Polls `check` until it returns something truthy, or fails after `timeout`. */
+export async function waitFor<T>(
+  check: () =>
+    | T
+    | undefined
+    | null
+    | false
+    | Promise<T | undefined | null | false>,
+  message: string,
+  timeout = 15000
+): Promise<T> {
+  const deadline = Date.now() + timeout;
+  while (Date.now() < deadline) {
+    const result = await check();
+    if (result) return result;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Timed out waiting for ${message}`);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** The cursor the task journal ends up with. */
+export async function readCursor(
+  stateDir: string
+): Promise<string | undefined> {
+  const journal = await fs.readFile(path.join(stateDir, "tasks.jsonl"), "utf8");
+  let cursor: string | undefined;
+  for (const line of journal.split("\n").filter(Boolean)) {
+    const entry = JSON.parse(line);
+    if (entry.cursor) cursor = entry.cursor;
+  }
+  return cursor;
+}
+
+/** A port nothing listens on right now, for HEALTH_PORT. */
+export async function getFreePort(): Promise<number> {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
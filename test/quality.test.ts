@@ -0,0 +1,70 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  assessCrops,
+  ICellMeasurement,
+  parseMinCropScore,
+  summarizeCropQuality,
+} from "../quality";
+
+const SHEET = { width: 300, height: 300 };
+
+/** A 3x3 sheet of 100px cells, each with a 60px subject in its middle. */
+function makeCells(): ICellMeasurement[] {
+  return Array.from({ length: 9 }, (_, index) => {
+    const row = Math.floor(index / 3);
+    const col = index % 3;
+    const cell = { x: col * 100, y: row * 100, width: 100, height: 100 };
+    return {
+      index,
+      row,
+      col,
+      cell,
+      bbox: { x: cell.x + 20, y: cell.y + 20, width: 60, height: 60 },
+      areas: [3600],
+    };
+  });
+}
+
+describe("crop quality", () => {
+  test("clean sheets score 1", () => {
+    const reports = assessCrops(makeCells(), SHEET);
+    assert.ok(reports.every((report) => report.score === 1));
+    assert.equal(summarizeCropQuality(reports, 0, 0.6), undefined);
+  });
+
+  test("flags empty, clipped, spilling, small and merged crops", () => {
+    const cells = makeCells();
+    cells[0] = { ...cells[0], bbox: undefined, areas: [] };
+    cells[2].bbox = { x: 220, y: 0, width: 80, height: 60 };
+    // A subject of cell 4 reaching into cell 5, so their crops overlap
+    cells[4].bbox = { x: 120, y: 120, width: 110, height: 60 };
+    cells[6].areas = [400];
+    cells[8].areas = [1800, 1800];
+
+    const reports = assessCrops(cells, SHEET);
+    assert.deepEqual(reports[0].issues, ["empty"]);
+    assert.equal(reports[0].score, 0);
+    assert.deepEqual(reports[2].issues, ["clipped"]);
+    assert.deepEqual(reports[4].issues, ["cellEdge", "overlap"]);
+    assert.deepEqual(reports[5].issues, ["overlap"]);
+    assert.deepEqual(reports[6].issues, ["small"]);
+    assert.equal(reports[6].score, 0.7);
+    assert.deepEqual(reports[8].issues, ["islands"]);
+    assert.equal(reports[8].islands, 2);
+
+    const crops = reports.filter((report) => !report.issues.includes("empty"));
+    assert.equal(
+      summarizeCropQuality(crops, 1, 0.6, true),
+      "⚠️ Held back crops 2 (cut off at the sheet edge), 4 (crosses its cell, overlaps a neighbor), 5 (overlaps a neighbor), 8 (several subjects) · 1 empty cell"
+    );
+  });
+
+  test("accepts minimum scores from 0 to 1", () => {
+    assert.equal(parseMinCropScore("0"), 0);
+    assert.equal(parseMinCropScore("0.75"), 0.75);
+    for (const text of ["-0.1", "1.5", "high", "", undefined]) {
+      assert.equal(parseMinCropScore(text), undefined);
+    }
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { groupComponents, IComponent } from "../segment";
+
+function piece(x: number, y: number, size: number): IComponent {
+  return { bbox: { x, y, width: size, height: size }, area: size * size };
+}
+
+describe("segmentation", () => {
+  test("merges accessories, leaves specks out and reads row by row", () => {
+    const components = [
+      piece(420, 60, 100), // Row 1, third
+      piece(40, 40, 100), // Row 1, first
+      piece(80, 30, 8), // Stem touching the first subject
+      piece(230, 50, 100), // Row 1, second, a bit lower
+      piece(150, 230, 120), // Row 2, offset to the right
+      piece(274, 250, 10), // Speech bubble 4px from the row 2 subject
+      piece(600, 600, 6), // Stray speck
+    ];
+    const { instances, specks, rows, cols } = groupComponents(components);
+
+    assert.deepEqual(
+      instances.map(({ row, col, pieces }) => ({ row, col, pieces })),
+      [
+        { row: 0, col: 0, pieces: [1, 2] },
+        { row: 0, col: 1, pieces: [3] },
+        { row: 0, col: 2, pieces: [0] },
+        { row: 1, col: 0, pieces: [4, 5] },
+      ]
+    );
+    assert.deepEqual(instances[0].bbox, {
+      x: 40,
+      y: 30,
+      width: 100,
+      height: 110,
+    });
+    assert.deepEqual(specks, [6]);
+    assert.deepEqual([rows, cols], [2, 3]);
+  });
+
+  test("keeps close but separate stickers apart", () => {
+    const { instances } = groupComponents([
+      piece(0, 0, 100),
+      piece(120, 0, 100), // 20px gutter, more than 8% of 100px
+    ]);
+    assert.equal(instances.length, 2);
+  });
+});
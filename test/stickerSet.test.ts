@@ -0,0 +1,39 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { buildStickerSetName, getPackTarget } from "../stickerSet";
+import { ITask } from "../source";
+import { TaskStatus, TaskType } from "../types";
+
+function task(id: string, title: string, prompt?: string): ITask {
+  return {
+    id,
+    source: "sora",
+    status: TaskStatus.succeeded,
+    type: TaskType.imageGen,
+    title,
+    prompt,
+    outputs: [],
+  };
+}
+
+describe("sticker set names", () => {
+  test("keeps latin titles", () => {
+    const { base } = getPackTarget(task("task_01jt", "Happy Cats"));
+    assert.equal(buildStickerSetName(base, "bot"), "happy_cats_by_bot");
+  });
+
+  test("falls back to the task id for titles without latin letters", () => {
+    for (const title of ["Котики", "猫のステッカー", "🐱🐱"]) {
+      const { base } = getPackTarget(task("task_01jt", title));
+      assert.equal(buildStickerSetName(base, "bot"), "task_01jt_by_bot");
+    }
+    const video = getPackTarget(task("task_02ab", "Котики"), "video");
+    assert.equal(
+      buildStickerSetName(video.base, "bot"),
+      "task_02ab_video_by_bot"
+    );
+    const pack = getPackTarget(task("task_03cd", "x", "[pack котики]"));
+    assert.equal(pack.title, "котики");
+    assert.equal(buildStickerSetName(pack.base, "bot"), "task_03cd_by_bot");
+  });
+});
@@ -0,0 +1,40 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+describe("task store", () => {
+  let stateDir: string;
+  // Imported once STATE_DIR points at a fresh folder
+  let TaskStore: typeof import("../taskStore").TaskStore;
+
+  before(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), "sticker-gpt-"));
+    process.env.STATE_DIR = stateDir;
+    ({ TaskStore } = await import("../taskStore"));
+  });
+
+  after(() => fs.rm(stateDir, { recursive: true, force: true }));
+
+  test("remembers old folder files across a compaction and a restart", async () => {
+    const longAgo = Date.now() - 60 * 24 * 60 * 60 * 1000;
+    const folderId = "folder:cats.png:1700000000000";
+    const entries = [
+      { id: folderId, state: "delivered", updatedAt: longAgo },
+      { id: "task_old", state: "delivered", updatedAt: longAgo },
+    ];
+    // Enough lines per task to compact on load
+    const lines = Array.from({ length: 5 }, () => entries).flat();
+    await fs.writeFile(
+      path.join(stateDir, "tasks.jsonl"),
+      lines.map((entry) => JSON.stringify(entry) + "\n").join("")
+    );
+    await new TaskStore().load();
+
+    const restarted = new TaskStore();
+    await restarted.load();
+    assert.ok(restarted.isDone(folderId));
+    assert.equal(restarted.get("task_old"), undefined);
+  });
+});
@@ -2,6 +2,8 @@ export enum TaskStatus {
   queued = "queued",
   succeeded = "succeeded",
   running = "running",
+  failed = "failed",
+  cancelled = "cancelled",
 }
 
 export enum TaskType {
@@ -26,12 +28,12 @@ export interface IPayload {
   created_at: string;
   status: TaskStatus;
   progress_pct: number;
-  progress_pos_in_queue: any;
-  estimated_queue_wait_time: any;
-  queue_status_message: any;
+  progress_pos_in_queue: number | null;
+  estimated_queue_wait_time: number | null; // seconds
+  queue_status_message: string | null;
   priority: number;
   type: TaskType;
-  prompt: any;
+  prompt: string | null;
   actions: IActions;
   n_variants: number;
   n_frames: number;
@@ -49,18 +51,13 @@ export interface IPayload {
   generations?: IGeneration[];
   num_unsafe_generations: number;
   title: string;
-  moderation_result: IModerationResult;
-  failure_reason: any;
+  moderation_result: IModerationResult | null;
+  failure_reason: string | null;
   needs_user_review: boolean;
 }
 
-export interface IActions {
-  "16": string;
-  "76": string;
-  "136": string;
-  "196": string;
-  "256": string;
-}
+// Keyed by frame count, e.g. "16", "76"; the set of keys varies per task
+export type IActions = Record<string, string>;
 
 export interface IInpaintItem {
   crop_bounds: any;
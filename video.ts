@@ -0,0 +1,187 @@
+import * as cv from "opencv4nodejs";
+import { execFile } from "child_process";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { fitToCanvas, toBGRA } from "./cv";
+import { IBackgroundOptions } from "./background";
+import { readOutput } from "./source";
+
+const execFileAsync = promisify(execFile);
+
+// --- Constants ---
+// Telegram video sticker requirements: https://core.telegram.org/stickers#video-requirements
+export const VIDEO_STICKER_LIMITS = {
+  SIZE: 512, // px, longest side
+  MAX_DURATION_SECONDS: 3,
+  MAX_FPS: 30,
+  MAX_BYTES: 256 * 1024,
+};
+// VP9 constant quality levels tried in order until the file fits MAX_BYTES
+const CRF_STEPS = [30, 38, 46, 54, 63];
+
+export interface IVideoSticker {
+  buffer: Buffer;
+  width: number;
+  height: number;
+  bytes: number;
+  fps: number;
+  durationSecs: number;
+  crf: number;
+}
+
+/**
+ * Thrown when a clip cannot be turned into a sticker that meets Telegram's
+ * limits. The message is meant to be shown to the chat as is.
+ */
+export class VideoStickerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VideoStickerError";
+  }
+}
+
+/**
+ * Converts a video (URL or local path) into a Telegram video sticker: VP9 WEBM with alpha, 512px
+ * on the longest side, at most 3 seconds and 30 fps and under 256 KB.
+ * Backgrounds are removed frame by frame with the same strategies
+ * `cropFeatheredStickers` uses for images without transparency. Requires `ffmpeg` with libvpx-vp9
+ * (override the binary with FFMPEG_PATH).
+ */
+export async function convertToVideoSticker(
+  url: string,
+  margin = 0,
+  background: IBackgroundOptions = {}
+): Promise<IVideoSticker> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), "video-sticker-"));
+  try {
+    let clip: Buffer;
+    try {
+      clip = await readOutput(url);
+    } catch (readError) {
+      throw new VideoStickerError(`could not read clip (${readError})`);
+    }
+    const inputPath = path.join(workDir, "input.mp4");
+    await fs.writeFile(inputPath, clip);
+
+    const { fps, frameCount } = await extractFrames(
+      inputPath,
+      workDir,
+      margin,
+      background
+    );
+    const durationSecs = frameCount / fps;
+
+    for (const crf of CRF_STEPS) {
+      const buffer = await encodeWebm(workDir, fps, crf);
+      if (buffer.length <= VIDEO_STICKER_LIMITS.MAX_BYTES) {
+        return {
+          buffer,
+          width: VIDEO_STICKER_LIMITS.SIZE,
+          height: VIDEO_STICKER_LIMITS.SIZE,
+          bytes: buffer.length,
+          fps,
+          durationSecs,
+          crf,
+        };
+      }
+      console.log(
+        `Video sticker is ${buffer.length} bytes at crf ${crf}, retrying with lower quality.`
+      );
+    }
+    throw new VideoStickerError(
+      `clip stays over ${
+        VIDEO_STICKER_LIMITS.MAX_BYTES / 1024
+      } KB even at the lowest quality`
+    );
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Writes the first 3 seconds of the clip as transparent PNG frames, resampled
+ * to at most 30 fps.
+ */
+async function extractFrames(
+  inputPath: string,
+  workDir: string,
+  margin: number,
+  background: IBackgroundOptions
+): Promise<{ fps: number; frameCount: number }> {
+  const cap = new cv.VideoCapture(inputPath);
+  try {
+    const sourceFps = cap.get(cv.CAP_PROP_FPS);
+    if (!sourceFps || !Number.isFinite(sourceFps)) {
+      throw new VideoStickerError("could not read the clip's frame rate");
+    }
+    const fps = Math.min(sourceFps, VIDEO_STICKER_LIMITS.MAX_FPS);
+    const maxFrames = Math.floor(
+      fps * VIDEO_STICKER_LIMITS.MAX_DURATION_SECONDS
+    );
+
+    let frameCount = 0;
+    let sourceIndex = 0;
+    for (let frame = cap.read(); !frame.empty; frame = cap.read()) {
+      // Keep the source frame closest to the next output timestamp
+      const wanted = Math.round((frameCount * sourceFps) / fps);
+      if (sourceIndex++ !== wanted) continue;
+
+      const sticker = fitToCanvas(
+        toBGRA(frame, background).image,
+        VIDEO_STICKER_LIMITS.SIZE,
+        margin
+      );
+      const name = `frame_${String(frameCount).padStart(4, "0")}.png`;
+      await cv.imwriteAsync(path.join(workDir, name), sticker);
+      if (++frameCount >= maxFrames) break;
+    }
+
+    if (frameCount === 0) {
+      throw new VideoStickerError("clip has no readable frames");
+    }
+    return { fps, frameCount };
+  } finally {
+    cap.release();
+  }
+}
+
+async function encodeWebm(
+  workDir: string,
+  fps: number,
+  crf: number
+): Promise<Buffer> {
+  const outputPath = path.join(workDir, `sticker_${crf}.webm`);
+  try {
+    await execFileAsync(process.env.FFMPEG_PATH || "ffmpeg", [
+      "-y",
+      "-loglevel",
+      "error",
+      "-framerate",
+      String(fps),
+      "-i",
+      path.join(workDir, "frame_%04d.png"),
+      "-c:v",
+      "libvpx-vp9",
+      "-pix_fmt",
+      "yuva420p", // keeps the alpha channel
+      "-crf",
+      String(crf),
+      "-b:v",
+      "0",
+      "-an",
+      outputPath,
+    ]);
+  } catch (ffmpegError: any) {
+    if (ffmpegError.code === "ENOENT") {
+      throw new VideoStickerError(
+        "ffmpeg is not installed (or set FFMPEG_PATH)"
+      );
+    }
+    throw new VideoStickerError(
+      `ffmpeg failed (${String(ffmpegError.stderr || ffmpegError).trim()})`
+    );
+  }
+  return fs.readFile(outputPath);
+}